@@ -18,3 +18,14 @@ const end = process.hrtime(start);
 const timer = `${end[0]}s ${~~(end[1] / 1000000)}ms`;
 
 console.log(`${Style.getStyles().length} size / ${timer}`);
+
+// Time registering unique styles, it should grow linearly with the count.
+const unique = create();
+const uniqueStart = process.hrtime();
+
+for (let i = 0; i < 20000; i++) unique.registerStyle({ width: i });
+
+const uniqueEnd = process.hrtime(uniqueStart);
+const uniqueMs = uniqueEnd[0] * 1000 + ~~(uniqueEnd[1] / 1000000);
+
+console.log(`${unique.values().length} unique styles / ${uniqueMs}ms`);
@@ -0,0 +1,132 @@
+import { describe, it, expect } from "vitest";
+import { compile, create } from "./index.js";
+import { atomizer } from "./atomic.js";
+
+describe("atomic", () => {
+  it("should register one class per property", () => {
+    const sheet = create(undefined, "", { atomic: atomizer() });
+
+    const classNames = sheet.registerStyle({
+      color: "red",
+      background: ["red", "linear-gradient(red, blue)"],
+      "&:hover": { color: "blue" },
+      "@media print": { color: "black" },
+    });
+
+    const [color, background, hover, print] = classNames.split(" ");
+
+    expect(classNames.split(" ")).toHaveLength(4);
+    expect(sheet.getStyles()).toEqual(
+      `.${color}{color:red}` +
+        `.${background}{background:red;background:linear-gradient(red, blue)}` +
+        `.${hover}:hover{color:blue}` +
+        `@media print{.${print}{color:black}}`,
+    );
+  });
+
+  it("should share classes between styles", () => {
+    const sheet = create(undefined, "", { atomic: atomizer() });
+
+    const classNames1 = sheet.registerStyle({ color: "red", margin: 0 });
+    const classNames2 = sheet.registerStyle({ color: "red", padding: 0 });
+
+    expect(classNames1.split(" ")[0]).toEqual(classNames2.split(" ")[0]);
+    expect(sheet.values()).toHaveLength(3);
+  });
+
+  it("should use the last value for the same property", () => {
+    const compiled = compile(
+      { backgroundColor: "red", "background-color": "blue" },
+      { atomic: atomizer() },
+    );
+
+    expect(compiled.atoms).toHaveLength(1);
+    expect(compiled.atoms![0].styles[0].style).toEqual("background-color:blue");
+  });
+
+  it("should give longhand properties a higher specificity", () => {
+    const sheet = create(undefined, "", { atomic: atomizer() });
+
+    const [marginTop, borderTopColor] = sheet
+      .registerStyle({ marginTop: 10, borderTopColor: "red" })
+      .split(" ");
+    const margin = sheet.registerStyle({ margin: 0 });
+
+    expect(sheet.getStyles()).toEqual(
+      `.${marginTop}.${marginTop}{margin-top:10px}` +
+        `.${borderTopColor}.${borderTopColor}.${borderTopColor}{border-top-color:red}` +
+        `.${margin}{margin:0}`,
+    );
+  });
+
+  it("should use the shorthand map for specificity", () => {
+    const sheet = create(undefined, "", { atomic: atomizer() });
+
+    const [top, alignItems, rowGap] = sheet
+      .registerStyle({ top: 0, alignItems: "center", rowGap: 0 })
+      .split(" ");
+    const [inset, placeItems] = sheet
+      .registerStyle({ inset: 10, placeItems: "start" })
+      .split(" ");
+
+    expect(sheet.getStyles()).toEqual(
+      `.${top}.${top}{top:0}` +
+        `.${alignItems}.${alignItems}{align-items:center}` +
+        `.${rowGap}.${rowGap}{row-gap:0}` +
+        `.${inset}{inset:10px}` +
+        `.${placeItems}{place-items:start}`,
+    );
+  });
+
+  it("should keep nesting options for each class", () => {
+    const sheet = create(undefined, "", { atomic: atomizer() });
+
+    const [color, hover] = sheet
+      .registerStyle({
+        $layer: "app",
+        color: "red",
+        "& a": { $unique: true, color: "blue" },
+      })
+      .split(" ");
+
+    expect(sheet.getStyles()).toEqual(
+      `@layer app{.${color}{color:red}.${hover} a{color:blue}}`,
+    );
+  });
+
+  it("should compile global styles normally", () => {
+    const sheet = create(undefined, "", { atomic: atomizer() });
+
+    sheet.registerStyle({ $global: true, body: { margin: 0, padding: 0 } });
+
+    expect(sheet.getStyles()).toEqual("body{margin:0;padding:0}");
+  });
+
+  it("should merge, unmerge and unregister atomic styles", () => {
+    const changes: string[] = [];
+    const sheet = create({
+      add: () => changes.push("add"),
+      change: () => changes.push("change"),
+      remove: () => changes.push("remove"),
+    });
+    const other = create(undefined, "", { atomic: atomizer() });
+    const compiled = compile(
+      { color: "red", margin: 0 },
+      { atomic: atomizer() },
+    );
+
+    other.registerStyle({ color: "red" });
+    sheet.merge(other);
+    sheet.register(compiled);
+
+    expect(changes).toEqual(["add", "add"]);
+    expect(sheet.values()).toHaveLength(2);
+
+    sheet.unregister(compiled);
+    expect(changes).toEqual(["add", "add", "remove"]);
+
+    sheet.unmerge(other);
+    expect(changes).toEqual(["add", "add", "remove", "remove"]);
+    expect(sheet.getStyles()).toEqual("");
+  });
+});
@@ -0,0 +1,67 @@
+import type { Atomizer, Styles } from "./index.js";
+import { hyphenate } from "./hyphenate.js";
+import { LONGHANDS } from "./shorthands.js";
+
+/**
+ * Count the nested shorthand properties that also set a property (e.g.
+ * `border` and `border-top` for `border-top-color`), longhands are compiled
+ * with a higher specificity so they override the shorthand
+ * regardless of output order.
+ */
+function shorthandDepth(property: string): number {
+  const name = property.replace(/^-\w+-/, "");
+  let depth = 0;
+
+  for (const [shorthand, longhands] of LONGHANDS) {
+    if (longhands.includes(name)) {
+      depth = Math.max(depth, shorthandDepth(shorthand) + 1);
+    }
+  }
+
+  return depth;
+}
+
+/**
+ * Split styles into one styles object per property, keeping the nesting. The
+ * last style for the same property and nesting wins.
+ */
+function atomize(
+  atoms: Map<string, [string, Styles]>,
+  styles: Styles,
+  path: string,
+  wrap: (styles: Styles) => Styles,
+) {
+  const meta: Styles = {};
+
+  for (const [key, value] of Object.entries(styles)) {
+    if (key.charCodeAt(0) === 36 /* $ */) meta[key] = value;
+  }
+
+  for (const [key, value] of Object.entries(styles)) {
+    if (key.charCodeAt(0) === 36 /* $ */ || value == null) continue;
+
+    if (typeof value === "object" && !Array.isArray(value)) {
+      atomize(atoms, value, `${path}${key}|`, (x) =>
+        wrap({ ...meta, [key]: x }),
+      );
+    } else {
+      const property = hyphenate(key);
+      const id = `${path}${property}`;
+      atoms.delete(id);
+      atoms.set(id, [property, wrap({ ...meta, [key]: value })]);
+    }
+  }
+
+  return atoms;
+}
+
+/**
+ * Compile one class name per property, nested selector and `@`-rule. Longhand
+ * properties are compiled with a higher specificity than their shorthands.
+ */
+export function atomizer(): Atomizer {
+  return (styles, compile) =>
+    [...atomize(new Map(), styles, "", (x) => x).values()].map(
+      ([property, atom]) => compile(atom, shorthandDepth(property)),
+    );
+}
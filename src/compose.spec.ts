@@ -0,0 +1,168 @@
+import { describe, it, expect } from "vitest";
+import { compile, create } from "./index.js";
+import { atomizer } from "./atomic.js";
+import { compose, extender } from "./compose.js";
+import { rtl } from "./rtl.js";
+
+describe("compose", () => {
+  it("should deep merge nested selectors", () => {
+    const sheet = create();
+
+    const className = sheet.register(
+      compose(
+        compile({
+          color: "red",
+          "&:hover": { color: "blue", background: "white" },
+        }),
+        compile({
+          "&:hover": { color: "green" },
+        }),
+      ),
+    );
+
+    expect(sheet.getStyles()).toEqual(
+      `.${className}{color:red}.${className}:hover{background:white;color:green}`,
+    );
+  });
+
+  it("should override overloaded values and shorthands", () => {
+    const sheet = create();
+
+    const className = sheet.register(
+      compose(
+        compile({ marginTop: 10, background: ["red", "blue"] }),
+        compile({ margin: 0, background: "url(a.png?a=1;b=2)" }),
+        compile({ marginTop: 5, content: '";"' }),
+      ),
+    );
+
+    expect(sheet.getStyles()).toEqual(
+      `.${className}{margin:0;background:url(a.png?a=1;b=2);margin-top:5px;content:";"}`,
+    );
+  });
+
+  it("should merge rules", () => {
+    const sheet = create();
+
+    const className = sheet.register(
+      compose(
+        compile({ "@media print": { color: "red", display: "none" } }),
+        compile({ "@media print": { color: "blue" } }),
+        compile({
+          $global: true,
+          "@font-face": { fontFamily: "a" },
+        }),
+        compile({
+          $global: true,
+          "@font-face": { fontFamily: "b" },
+        }),
+      ),
+    );
+
+    expect(sheet.getStyles()).toEqual(
+      `@media print{.${className}{display:none;color:blue}}` +
+        "@font-face{font-family:a}@font-face{font-family:b}",
+    );
+  });
+
+  it("should generate a hash from the merged styles", () => {
+    const a = compile({ color: "red" });
+    const b = compile({ color: "blue" });
+
+    expect(compose(a, b).id).toEqual(compose(a, b).id);
+    expect(compose(a, b).id).not.toEqual(compose(b, a).id);
+    expect(compose(a, b).id).toEqual(compose(compile({ color: "blue" })).id);
+  });
+
+  it("should share the id with compiled styles for the same CSS", () => {
+    const options = { rtl: rtl(), unit: "rem" };
+    const a = compile({ marginLeft: 1, "&:hover": { color: "red" } }, options);
+
+    expect(compose.with(options)(a).id).toEqual(a.id);
+    expect(compose(compile({ color: "red" })).id).toEqual(
+      compile({ color: "red" }).id,
+    );
+    expect(
+      compose(compile({ color: "red" }), compile({ color: "red" })).id,
+    ).toEqual(compile({ color: "red" }).id);
+  });
+
+  it("should hash using the compile options", () => {
+    const options = { hash: (x: string) => `h${x.length}`, extend: extender() };
+    const a = compile({ color: "red" }, options);
+    const b = compile({ color: "blue" }, options);
+
+    expect(compose.with(options)(a, b).id).toMatch(/^h\d+$/);
+
+    const sheet = create(undefined, "", options);
+    const className = sheet.registerStyle({ $extend: a, color: "blue" });
+
+    expect(className).toEqual(compose.with(options)(a, b).id);
+  });
+
+  it("should compose atomic styles", () => {
+    const options = { atomic: atomizer() };
+    const a = compile({ color: "red", margin: 0 }, options);
+    const b = compile({ color: "blue" }, options);
+    const composed = compose.with(options)(a, b);
+
+    expect(composed.atoms).toEqual([a.atoms![1], b.atoms![0]]);
+  });
+
+  it("should extend compiled styles", () => {
+    const sheet = create(undefined, "", { extend: extender() });
+    const base = compile({ color: "red", "&:hover": { color: "blue" } });
+
+    const className = sheet.registerStyle({
+      $extend: base,
+      "&:hover": { background: "white" },
+    });
+
+    expect(sheet.getStyles()).toEqual(
+      `.${className}{color:red}.${className}:hover{color:blue;background:white}`,
+    );
+  });
+
+  it("should only type $extend at the top level", () => {
+    const base = compile({ color: "red" });
+
+    const invalid = () => [
+      // @ts-expect-error Compiled styles are not nested styles.
+      compile({ "&:hover": base }),
+      // @ts-expect-error Nested styles can not extend.
+      compile({ "&:hover": { $extend: base } }),
+    ];
+
+    expect(typeof invalid).toEqual("function");
+  });
+
+  it("should extend registered class names", () => {
+    const sheet = create(undefined, "", { extend: extender() });
+    const base = sheet.registerStyle({ color: "red", padding: 0 });
+
+    const className = sheet.registerStyle({
+      $extend: [base],
+      color: "blue",
+    });
+
+    expect(sheet.getStyles()).toEqual(
+      `.${base}{color:red;padding:0}.${className}{padding:0;color:blue}`,
+    );
+  });
+
+  it("should throw when extending unknown class names", () => {
+    const options = { extend: extender() };
+
+    expect(() =>
+      create(undefined, "", options).registerStyle({ $extend: "foo" }),
+    ).toThrow(TypeError);
+    expect(() => compile({ $extend: "foo" }, options)).toThrow(TypeError);
+  });
+
+  it("should throw when extending without the extend option", () => {
+    const base = compile({ color: "red" });
+
+    expect(() => compile({ $extend: base })).toThrow(TypeError);
+    expect(() => create().registerStyle({ $extend: base })).toThrow(TypeError);
+  });
+});
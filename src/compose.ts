@@ -0,0 +1,202 @@
+import type {
+  Compiled,
+  CompiledRule,
+  CompiledStyle,
+  CompileOptions,
+  Extender,
+} from "./index.js";
+import { getHash, getPid } from "./hash.js";
+import { declarations } from "./scan.js";
+
+/**
+ * Styles and rules merged with CSS override semantics.
+ */
+interface MergedRules {
+  styles: Map<string, MergedStyle>;
+  rules: Map<string, MergedRule>;
+}
+
+interface MergedStyle {
+  selector: string;
+  isUnique: boolean;
+  properties: Map<string, string[]>;
+}
+
+interface MergedRule extends MergedRules {
+  selector: string;
+  properties: Map<string, string[]>;
+}
+
+/**
+ * Merge declarations, a later property replaces the earlier values (including
+ * overloads) and moves to the end so it overrides related shorthands.
+ */
+function mergeProperties(properties: Map<string, string[]>, style: string) {
+  const values = new Map<string, string[]>();
+
+  for (const [name, value] of declarations(style)) {
+    const list = values.get(name);
+    if (list) list.push(value);
+    else values.set(name, [value]);
+  }
+
+  for (const [name, list] of values) {
+    properties.delete(name);
+    properties.set(name, list);
+  }
+}
+
+/**
+ * Deep merge compiled styles and rules into the target.
+ */
+function mergeRules(
+  target: MergedRules,
+  stylesList: CompiledStyle[],
+  rulesList: CompiledRule[],
+) {
+  for (const { selector, style, isUnique } of stylesList) {
+    const key = isUnique ? `${selector}|${target.styles.size}` : selector;
+    let item = target.styles.get(key);
+    if (!item) {
+      item = { selector, isUnique, properties: new Map() };
+      target.styles.set(key, item);
+    }
+    mergeProperties(item.properties, style);
+  }
+
+  for (const { selector, style, styles, rules } of rulesList) {
+    // Rules with their own styles, such as `@font-face`, are never merged.
+    const key = style ? `${selector}|${target.rules.size}` : selector;
+    let item = target.rules.get(key);
+    if (!item) {
+      item = {
+        selector,
+        properties: new Map(),
+        styles: new Map(),
+        rules: new Map(),
+      };
+      target.rules.set(key, item);
+    }
+    mergeProperties(item.properties, style);
+    mergeRules(item, styles, rules);
+  }
+}
+
+/**
+ * Transform merged properties back into a style string.
+ */
+function mergedStyle(properties: Map<string, string[]>, values: boolean) {
+  const styles: string[] = [];
+
+  for (const [name, list] of properties) {
+    if (values) for (const value of list) styles.push(`${name}:${value}`);
+    else styles.push(name);
+  }
+
+  return styles.join(";");
+}
+
+/**
+ * Transform merged rules back into compiled lists.
+ */
+function unmerge(
+  merged: MergedRules,
+  stylesList: CompiledStyle[],
+  rulesList: CompiledRule[],
+  values: boolean,
+) {
+  for (const { selector, isUnique, properties } of merged.styles.values()) {
+    const style = mergedStyle(properties, values);
+    if (style) stylesList.push({ selector, style, isUnique });
+  }
+
+  for (const item of merged.rules.values()) {
+    const style = mergedStyle(item.properties, values);
+    const rule: CompiledRule = {
+      selector: item.selector,
+      style,
+      styles: [],
+      rules: [],
+    };
+    rulesList.push(rule);
+    unmerge(item, rule.styles, rule.rules, values);
+  }
+}
+
+/**
+ * Deep merge compiled styles using the compile options to generate the hash.
+ */
+function merge(compiled: Compiled[], options: CompileOptions): Compiled {
+  const hash = getHash(options);
+  const displayName = compiled.reduce<string | undefined>(
+    (name, x) => x.displayName ?? name,
+    undefined,
+  );
+
+  // Atomic styles replace earlier atoms targeting the same property.
+  if (compiled.some((x) => x.atoms)) {
+    const atoms = new Map<string, Compiled>();
+
+    for (const atom of compiled.flatMap((x) => x.atoms ?? [x])) {
+      const merged: MergedRules = { styles: new Map(), rules: new Map() };
+      const styles: CompiledStyle[] = [];
+      const rules: CompiledRule[] = [];
+      mergeRules(merged, atom.styles, atom.rules);
+      unmerge(merged, styles, rules, false);
+      const slot = getPid(styles, rules, {});
+      atoms.delete(slot);
+      atoms.set(slot, atom);
+    }
+
+    const pid = [...atoms.values()].map((x) => x.id).join(" ");
+
+    return {
+      id: hash(pid),
+      rules: [],
+      styles: [],
+      displayName,
+      pid,
+      atoms: [...atoms.values()],
+    };
+  }
+
+  const merged: MergedRules = { styles: new Map(), rules: new Map() };
+  const stylesList: CompiledStyle[] = [];
+  const rulesList: CompiledRule[] = [];
+
+  for (const x of compiled) mergeRules(merged, x.styles, x.rules);
+
+  unmerge(merged, stylesList, rulesList, true);
+  const pid = getPid(stylesList, rulesList, options);
+
+  return {
+    id: hash(pid),
+    rules: rulesList,
+    styles: stylesList,
+    displayName,
+    pid,
+  };
+}
+
+/**
+ * Deep merge compiled styles into a single compiled style, later styles
+ * override earlier declarations for the same selector and property.
+ */
+export function compose(...compiled: Compiled[]): Compiled {
+  return merge(compiled, {});
+}
+
+/**
+ * Compose using the same `options` as `compile` to generate the hash.
+ */
+compose.with =
+  (options: CompileOptions) =>
+  (...compiled: Compiled[]): Compiled =>
+    merge(compiled, options);
+
+/**
+ * Merge compiled styles for `$extend` using `compose`.
+ */
+export function extender(): Extender {
+  return merge;
+}
@@ -0,0 +1,285 @@
+import { describe, it, expect } from "vitest";
+import { create } from "./index.js";
+import { adopt, attach, release, ShadowSheets } from "./dom.js";
+
+/**
+ * Split a CSS string into top-level rules.
+ */
+function split(css: string) {
+  const rules: string[] = [];
+  let depth = 0;
+  let start = 0;
+
+  for (let i = 0; i < css.length; i++) {
+    if (css[i] === "{") depth++;
+    if (css[i] === "}" && --depth === 0) {
+      rules.push(css.slice(start, i + 1));
+      start = i + 1;
+    }
+  }
+
+  return rules;
+}
+
+/**
+ * Fake CSSOM rule list, rejects unknown vendor prefixed selectors like browsers.
+ */
+class FakeSheet {
+  cssRules: FakeRule[] = [];
+
+  insertRule(css: string, index = 0) {
+    if (css.includes("::-moz-")) throw new SyntaxError("Invalid selector");
+    if (index > this.cssRules.length) throw new RangeError("Invalid index");
+    this.cssRules.splice(index, 0, parse(css));
+    return index;
+  }
+
+  deleteRule(index: number) {
+    if (index >= this.cssRules.length) throw new RangeError("Invalid index");
+    this.cssRules.splice(index, 1);
+  }
+
+  get cssText() {
+    return this.cssRules.map((x) => x.cssText).join("");
+  }
+}
+
+/**
+ * Fake CSSOM style rule.
+ */
+class FakeRule {
+  constructor(public cssText: string) {}
+}
+
+/**
+ * Fake CSSOM grouping rule (e.g. `@media`), allows nested changes.
+ */
+class FakeGroupingRule extends FakeSheet {
+  constructor(public prelude: string) {
+    super();
+  }
+
+  get cssText() {
+    return `${this.prelude}{${super.cssText}}`;
+  }
+}
+
+/**
+ * Parse a CSS rule into the fake CSSOM, silently dropping unknown vendor
+ * prefixed nested rules like browsers.
+ */
+function parse(css: string): FakeRule {
+  if (!/^@(media|supports)/.test(css)) return new FakeRule(css);
+
+  const index = css.indexOf("{");
+  const rule = new FakeGroupingRule(css.slice(0, index));
+  rule.cssRules = split(css.slice(index + 1, -1))
+    .filter((x) => !x.includes("::-moz-"))
+    .map(parse);
+  return rule;
+}
+
+describe("dom", () => {
+  it("should render existing styles", () => {
+    const sheet = create();
+    const target = new FakeSheet();
+
+    sheet.registerStyle({
+      color: "red",
+      "@media print": { color: "blue" },
+    });
+
+    attach(sheet, target);
+
+    expect(target.cssRules).toHaveLength(2);
+    expect(target.cssText).toEqual(sheet.getStyles());
+  });
+
+  it("should attach to a style element", () => {
+    const sheet = create();
+    const target = new FakeSheet();
+
+    attach(sheet, { sheet: target });
+    sheet.registerStyle({ color: "red" });
+
+    expect(target.cssText).toEqual(sheet.getStyles());
+  });
+
+  it("should throw when the style element has no sheet", () => {
+    expect(() => attach(create(), { sheet: null })).toThrow(TypeError);
+  });
+
+  it("should insert rules at the change index", () => {
+    const sheet = create();
+    const target = new FakeSheet();
+
+    attach(sheet, target);
+
+    sheet.registerStyle({ color: "red" });
+    sheet.registerStyle({ color: "blue" });
+    sheet.registerStyle({ $displayName: "red", color: "red" });
+
+    expect(target.cssRules).toHaveLength(2);
+    expect(target.cssText).toEqual(sheet.getStyles());
+  });
+
+  it("should update nested rules in place", () => {
+    const sheet = create();
+    const target = new FakeSheet();
+
+    attach(sheet, target);
+
+    const styles = {
+      "@media print": {
+        color: "red",
+        "@supports (display: grid)": { display: "grid" },
+      },
+    };
+
+    sheet.registerStyle({ ...styles, $displayName: "a" });
+
+    const media = target.cssRules[0];
+
+    sheet.registerStyle({ ...styles, $displayName: "b" });
+
+    expect(target.cssRules).toHaveLength(1);
+    expect(target.cssRules[0]).toBe(media);
+    expect(target.cssText).toEqual(sheet.getStyles());
+  });
+
+  it("should stay in sync when merging and unmerging", () => {
+    const sheet = create();
+    const other = create();
+    const target = new FakeSheet();
+
+    attach(sheet, target);
+
+    sheet.registerStyle({
+      background: "red",
+      "@media (min-width: 400px)": { background: "yellow" },
+    });
+
+    other.registerStyle({
+      background: "red",
+      "@media (min-width: 400px)": { background: "pink" },
+    });
+
+    other.registerStyle({
+      $global: true,
+      "@media (min-width: 400px)": { body: { margin: 0 } },
+    });
+
+    sheet.merge(other);
+    expect(target.cssText).toEqual(sheet.getStyles());
+
+    sheet.unmerge(other);
+    expect(target.cssText).toEqual(sheet.getStyles());
+  });
+
+  it("should keep nested indexes when the browser drops a rule", () => {
+    const sheet = create();
+    const target = new FakeSheet();
+
+    attach(sheet, target);
+
+    const styles = {
+      "@media print": {
+        "&::-moz-selection": { color: "red" },
+        color: "blue",
+      },
+    };
+
+    const a = sheet.registerStyle({ ...styles, $displayName: "a" });
+    const b = sheet.registerStyle({ ...styles, $displayName: "b" });
+
+    expect(target.cssRules).toHaveLength(1);
+    expect(target.cssText).toEqual(
+      `@media print{.${a},.${b}{color:blue}:not(*){}}`,
+    );
+  });
+
+  it("should insert the full rule when the group has no rule list", () => {
+    const sheet = create();
+    const target = new FakeSheet();
+
+    attach(sheet, target);
+    sheet.registerStyle({ $layer: "base", color: "red" });
+
+    expect(target.cssRules).toHaveLength(1);
+    expect(target.cssText).toEqual(sheet.getStyles());
+  });
+
+  it("should keep indexes when the browser rejects a rule", () => {
+    const sheet = create();
+    const target = new FakeSheet();
+
+    attach(sheet, target);
+
+    sheet.registerStyle({
+      "&::-moz-placeholder": { color: "red" },
+    });
+
+    const className = sheet.registerStyle({ color: "blue" });
+
+    expect(target.cssRules).toHaveLength(2);
+    expect(target.cssRules[1].cssText).toEqual(`.${className}{color:blue}`);
+  });
+});
+
+describe("shadow roots", () => {
+  it("should share a constructable stylesheet between roots", () => {
+    const sheet = create();
+    const target = new FakeSheet();
+    const other = new FakeSheet();
+    const a = { adoptedStyleSheets: [other] };
+    const b = { adoptedStyleSheets: [] as FakeSheet[] };
+
+    attach(sheet, target);
+    adopt(a, target);
+    adopt(b, target);
+    adopt(b, target);
+
+    sheet.registerStyle({ color: "red" });
+
+    expect(a.adoptedStyleSheets).toEqual([other, target]);
+    expect(b.adoptedStyleSheets).toEqual([target]);
+    expect(target.cssText).toEqual(sheet.getStyles());
+
+    release(a, target);
+
+    expect(a.adoptedStyleSheets).toEqual([other]);
+  });
+
+  it("should render styles registered for each root", () => {
+    const shadow = new ShadowSheets(
+      () => create(undefined, "f"),
+      () => new FakeSheet(),
+    );
+    const a = { adoptedStyleSheets: [] as FakeSheet[] };
+    const b = { adoptedStyleSheets: [] as FakeSheet[] };
+
+    const red = shadow.get(a).registerStyle({ color: "red" });
+    const blue = shadow.get(b).registerStyle({ color: "blue" });
+
+    expect(shadow.get(a)).toBe(shadow.get(a));
+    expect(red).toEqual(create(undefined, "f").registerStyle({ color: "red" }));
+    expect(a.adoptedStyleSheets[0].cssText).toEqual(`.${red}{color:red}`);
+    expect(b.adoptedStyleSheets[0].cssText).toEqual(`.${blue}{color:blue}`);
+  });
+
+  it("should stop rendering deleted roots", () => {
+    const shadow = new ShadowSheets(create, () => new FakeSheet());
+    const root = { adoptedStyleSheets: [] as FakeSheet[] };
+    const sheet = shadow.get(root);
+    const [target] = root.adoptedStyleSheets;
+
+    expect(shadow.delete(root)).toBe(true);
+    expect(shadow.delete(root)).toBe(false);
+
+    sheet.registerStyle({ color: "red" });
+
+    expect(root.adoptedStyleSheets).toEqual([]);
+    expect(target.cssRules).toHaveLength(0);
+    expect(shadow.get(root)).not.toBe(sheet);
+  });
+});
@@ -0,0 +1,172 @@
+import { Rule } from "./index.js";
+import type { Cache, Changes, Container, Sheet } from "./index.js";
+
+/**
+ * Minimal CSSOM interface, implemented by `CSSStyleSheet` and `CSSGroupingRule`.
+ */
+export interface CSSRuleContainer {
+  cssRules: ArrayLike<object>;
+  insertRule(rule: string, index?: number): number;
+  deleteRule(index: number): void;
+}
+
+/**
+ * Minimal `<style>` element interface, the sheet exists once it's in the document.
+ */
+export interface StyleElement {
+  sheet: CSSRuleContainer | null;
+}
+
+/**
+ * Minimal `ShadowRoot` or `Document` interface for constructable stylesheets.
+ */
+export interface AdoptingRoot<T = CSSRuleContainer> {
+  adoptedStyleSheets: T[];
+}
+
+/**
+ * Rule inserted when the browser rejects a style (e.g. an unknown vendor
+ * prefixed selector), keeping the CSSOM indexes in sync with the `Cache`.
+ */
+const PLACEHOLDER_RULE = ":not(*){}";
+
+/**
+ * Check if the CSSOM rule can contain nested rules (e.g. `@media`).
+ */
+function isContainer(rule: object | undefined): rule is CSSRuleContainer {
+  return !!rule && typeof (rule as CSSRuleContainer).insertRule === "function";
+}
+
+/**
+ * Mirror `Changes` events into a CSSOM rule list.
+ */
+export class Renderer implements Changes {
+  constructor(public target: CSSRuleContainer) {}
+
+  add(style: Container<any>, index: number) {
+    // Browsers drop unsupported nested rules when parsing a group, so insert
+    // an empty group and add each nested rule to keep indexes in sync.
+    if (style instanceof Rule && style.values().length) {
+      this.insert(`${style.rule}{${style.style}}`, index);
+
+      const rule = this.target.cssRules[index];
+
+      if (isContainer(rule)) {
+        const renderer = new Renderer(rule);
+        style.changes = renderer;
+        style.values().forEach((x, i) => renderer.add(x, i));
+        return;
+      }
+
+      this.target.deleteRule(index);
+    }
+
+    this.insert(style.getStyles(), index);
+  }
+
+  change(style: Container<any>, index: number) {
+    // Grouping rules are updated in place by their own renderer.
+    if (style instanceof Rule && style.changes instanceof Renderer) return;
+
+    this.target.deleteRule(index);
+    this.add(style, index);
+  }
+
+  remove(style: Container<any>, index: number) {
+    if (style instanceof Rule) style.changes = undefined;
+
+    this.target.deleteRule(index);
+  }
+
+  /**
+   * Insert a rule, or a placeholder when the browser rejects it.
+   */
+  protected insert(css: string, index: number) {
+    try {
+      this.target.insertRule(css, index);
+    } catch {
+      this.target.insertRule(PLACEHOLDER_RULE, index);
+    }
+  }
+}
+
+/**
+ * Render the current styles into the target and keep it in sync with changes.
+ * This replaces any existing `changes` handler on the cache.
+ */
+export function attach(
+  cache: Cache<any>,
+  target: CSSRuleContainer | StyleElement,
+): Renderer {
+  const sheet = isContainer(target) ? target : target.sheet;
+
+  if (!sheet) {
+    throw new TypeError("Style element must be in the document to attach");
+  }
+
+  const renderer = new Renderer(sheet);
+  cache.values().forEach((x, i) => renderer.add(x, i));
+  cache.changes = renderer;
+  return renderer;
+}
+
+/**
+ * Add a constructable stylesheet to the root, a stylesheet can be adopted by
+ * many roots and changes apply to every root at once.
+ */
+export function adopt<T>(root: AdoptingRoot<T>, styleSheet: T) {
+  if (root.adoptedStyleSheets.includes(styleSheet)) return;
+  root.adoptedStyleSheets = [...root.adoptedStyleSheets, styleSheet];
+}
+
+/**
+ * Remove a constructable stylesheet from the root.
+ */
+export function release<T>(root: AdoptingRoot<T>, styleSheet: T) {
+  root.adoptedStyleSheets = root.adoptedStyleSheets.filter(
+    (x) => x !== styleSheet,
+  );
+}
+
+/**
+ * Create a sheet for each shadow root, rendered into its own constructable
+ * stylesheet, so each root only receives the styles registered for it. Use
+ * the same `create` options for every sheet so class names match.
+ */
+export class ShadowSheets<T extends CSSRuleContainer> {
+  protected sheets = new WeakMap<AdoptingRoot<T>, [Sheet, T]>();
+
+  constructor(
+    public createSheet: () => Sheet,
+    public createStyleSheet: () => T,
+  ) {}
+
+  /**
+   * Get the sheet for the root, adopting a new stylesheet on first use.
+   */
+  get(root: AdoptingRoot<T>): Sheet {
+    const existing = this.sheets.get(root);
+    if (existing) return existing[0];
+
+    const sheet = this.createSheet();
+    const styleSheet = this.createStyleSheet();
+
+    attach(sheet, styleSheet);
+    adopt(root, styleSheet);
+    this.sheets.set(root, [sheet, styleSheet]);
+    return sheet;
+  }
+
+  /**
+   * Stop rendering into the root and release its stylesheet.
+   */
+  delete(root: AdoptingRoot<T>): boolean {
+    const existing = this.sheets.get(root);
+    if (!existing) return false;
+
+    const [sheet, styleSheet] = existing;
+    sheet.changes = undefined;
+    release(root, styleSheet);
+    return this.sheets.delete(root);
+  }
+}
@@ -0,0 +1,174 @@
+import { describe, it, expect } from "vitest";
+import { mkdtemp, readFile, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { create } from "./index.js";
+import { extender } from "./compose.js";
+import { extract, extractPlugin, transform } from "./extract.js";
+
+describe("extract", () => {
+  it("should replace static calls with the runtime class name", () => {
+    const sheet = create();
+    const runtime = create();
+
+    const code = transform(
+      [
+        'const button = sheet.registerStyle({ color: "red", "&:hover": { color: "blue" } });',
+        "const link = this.sheet.registerStyle({",
+        '  // Comment with "registerStyle(" inside.',
+        '  background: "url(a).png)",',
+        "});",
+      ].join("\n"),
+      sheet,
+    );
+
+    const button = runtime.registerStyle({
+      color: "red",
+      "&:hover": { color: "blue" },
+    });
+    const link = runtime.registerStyle({ background: "url(a).png)" });
+
+    expect(code).toEqual(
+      `const button = "${button}";\nconst link = "${link}";`,
+    );
+    expect(sheet.getStyles()).toEqual(runtime.getStyles());
+  });
+
+  it("should leave calls with runtime values unchanged", () => {
+    const sheet = create();
+    const source = [
+      "return sheet.registerStyle({ color: brand });",
+      "sheet.registerStyle(styles);",
+      "sheet.registerStyle(",
+    ].join("\n");
+
+    expect(transform(source, sheet)).toEqual(source);
+    expect(sheet.getStyles()).toEqual("");
+  });
+
+  it("should leave calls on chained receivers unchanged", () => {
+    const sheet = create();
+    const source = [
+      'getStyles().sheet.registerStyle({ color: "red" });',
+      'ctx?.sheet.registerStyle({ color: "red" });',
+      'sheet?.registerStyle({ color: "red" });',
+      'items[0].registerStyle({ color: "red" });',
+      'this.#sheet.registerStyle({ color: "red" });',
+    ].join("\n");
+
+    expect(transform(source, sheet)).toEqual(source);
+    expect(sheet.getStyles()).toEqual("");
+  });
+
+  it("should ignore calls in strings and comments", () => {
+    const sheet = create();
+    const source = [
+      '// sheet.registerStyle({ color: "red" });',
+      '/* sheet.registerStyle({ color: "red" }); */',
+      "const a = 'sheet.registerStyle({})';",
+      "const b = `${x}.registerStyle({})`;",
+    ].join("\n");
+
+    expect(transform(source, sheet)).toEqual(source);
+    expect(sheet.getStyles()).toEqual("");
+  });
+
+  it("should not register replaced styles at runtime", () => {
+    const sheet = create();
+    const source = [
+      'const a = sheet.registerStyle({ color: "red" });',
+      'const b = sheet.registerStyle({ $extend: a, color: "blue" });',
+    ].join("\n");
+
+    const className = create().registerStyle({ color: "red" });
+
+    // The `$extend` call uses a runtime value, but `a` is never registered.
+    expect(transform(source, sheet)).toEqual(
+      source.replace('sheet.registerStyle({ color: "red" })', `"${className}"`),
+    );
+    expect(() =>
+      create(undefined, "", { extend: extender() }).registerStyle({
+        $extend: className,
+        color: "blue",
+      }),
+    ).toThrow(TypeError);
+  });
+
+  it("should extract styles from files", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "free-style-"));
+    const a = join(dir, "a.js");
+    const b = join(dir, "b.js");
+
+    await writeFile(a, 'export default sheet.registerStyle({ color: "red" });');
+    await writeFile(b, 'export default sheet.registerStyle({ color: "red" });');
+
+    const className = create().registerStyle({ color: "red" });
+    const { css, files } = await extract([a, b]);
+
+    expect(css).toEqual(`.${className}{color:red}`);
+    expect(files.get(a)).toEqual(`export default "${className}";`);
+    expect(files.get(b)).toEqual(`export default "${className}";`);
+  });
+
+  it("should emit css with rollup and vite", () => {
+    const plugin = extractPlugin({ fileName: "app.css" });
+    const assets: Array<{ fileName: string; source: string }> = [];
+
+    const result = plugin.transform(
+      'sheet.registerStyle({ color: "red" })',
+      "/src/a.tsx",
+    );
+
+    plugin.generateBundle.call({
+      emitFile(file) {
+        assets.push(file);
+        return file.fileName;
+      },
+    });
+
+    const className = create().registerStyle({ color: "red" });
+
+    expect(plugin.transform("", "/src/a.css")).toEqual(null);
+    expect(result).toEqual({ code: `"${className}"`, map: null });
+    expect(assets).toEqual([
+      {
+        type: "asset",
+        fileName: "app.css",
+        source: `.${className}{color:red}`,
+      },
+    ]);
+  });
+
+  it("should write css with esbuild", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "free-style-"));
+    const path = join(dir, "a.ts");
+    const callbacks: Array<() => Promise<void>> = [];
+    let onLoad: (args: { path: string }) => Promise<object> = async () => ({});
+
+    await writeFile(path, 'sheet.registerStyle({ color: "red" });');
+
+    extractPlugin().setup({
+      initialOptions: { outdir: dir },
+      onLoad(options, callback) {
+        expect(options.filter.test(path)).toBe(true);
+        onLoad = callback;
+      },
+      onEnd(callback) {
+        callbacks.push(callback);
+      },
+    });
+
+    const className = create().registerStyle({ color: "red" });
+
+    expect(await onLoad({ path })).toEqual({
+      contents: `"${className}";`,
+      loader: "ts",
+    });
+
+    for (const callback of callbacks) await callback();
+
+    expect(await readFile(join(dir, "styles.css"), "utf8")).toEqual(
+      `.${className}{color:red}`,
+    );
+  });
+});
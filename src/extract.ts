@@ -0,0 +1,229 @@
+import { readFile, writeFile } from "node:fs/promises";
+import { runInNewContext } from "node:vm";
+import { create } from "./index.js";
+import type { Sheet, Styles } from "./index.js";
+
+/**
+ * Options for static extraction.
+ */
+export interface ExtractOptions {
+  /** Sheet collecting the extracted styles, use the same options as runtime. */
+  sheet?: Sheet;
+  /** Output file name for the extracted CSS, defaults to `styles.css`. */
+  fileName?: string;
+  /** Modules to transform, defaults to JavaScript and TypeScript files. */
+  include?: RegExp;
+}
+
+/**
+ * Result of extracting styles from files.
+ */
+export interface Extracted {
+  css: string;
+  files: Map<string, string>;
+}
+
+/**
+ * Match the start of a `registerStyle` call, e.g. `sheet.registerStyle(`.
+ */
+const CALL_RE = /\.\s*registerStyle\s*\(/y;
+
+/**
+ * Match the object before `.registerStyle`, e.g. `this.sheet`.
+ */
+const CALLEE_RE = /[\w$]+(?:\s*\.\s*[\w$]+)*\s*$/;
+
+/**
+ * Match a member access before the callee, e.g. `getSheet().` or `ctx?.`, which
+ * makes the callee part of a longer expression.
+ */
+const MEMBER_RE = /[.#]\s*$/;
+
+/**
+ * Default modules to transform.
+ */
+const INCLUDE_RE = /\.[cm]?[jt]sx?$/;
+
+/**
+ * Skip the string or comment starting at `index`, returns the index of the
+ * last character skipped or `index` when there's nothing to skip.
+ */
+function skip(code: string, index: number): number {
+  const char = code[index];
+
+  if (char === '"' || char === "'" || char === "`") {
+    let i = index + 1;
+    for (; i < code.length && code[i] !== char; i++) {
+      if (code[i] === "\\") i++;
+    }
+    return i;
+  }
+
+  if (char === "/" && code[index + 1] === "/") {
+    const end = code.indexOf("\n", index);
+    return end === -1 ? code.length : end;
+  }
+
+  if (char === "/" && code[index + 1] === "*") {
+    const end = code.indexOf("*/", index + 2);
+    return end === -1 ? code.length : end + 1;
+  }
+
+  return index;
+}
+
+/**
+ * Find the index of the closing parenthesis, skipping strings and comments.
+ */
+function closing(code: string, start: number): number {
+  let depth = 0;
+
+  for (let i = start; i < code.length; i++) {
+    const char = code[i];
+    const end = skip(code, i);
+
+    if (end !== i) {
+      i = end;
+    } else if (char === "(" || char === "[" || char === "{") {
+      depth++;
+    } else if (char === ")" || char === "]" || char === "}") {
+      if (--depth === 0) return i;
+    }
+  }
+
+  return -1;
+}
+
+/**
+ * Evaluate a static call argument, returns `undefined` when the argument
+ * depends on runtime values (e.g. variables or imports).
+ */
+function evaluate(source: string): unknown {
+  try {
+    return runInNewContext(`(${source})`, Object.create(null), {
+      timeout: 1000,
+    });
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Replace static `registerStyle` calls with the class name string, adding the
+ * styles to the sheet. Only literal styles called on an identifier path (e.g.
+ * `this.sheet`) are replaced, the argument is evaluated without the module so
+ * calls using variables, constants or imports are left unchanged and generate
+ * the same class name at runtime. Calls in strings and comments are ignored. Replaced styles are not registered at runtime, so they can't be
+ * extended using the class name.
+ */
+export function transform(code: string, sheet: Sheet): string {
+  let result = "";
+  let start = 0;
+
+  for (let i = 0; i < code.length; i++) {
+    const end = skip(code, i);
+    if (end !== i) {
+      i = end;
+      continue;
+    }
+
+    CALL_RE.lastIndex = i;
+    const match = CALL_RE.exec(code);
+    if (!match) continue;
+
+    const open = i + match[0].length - 1;
+    const close = closing(code, open);
+    if (close === -1) break;
+
+    const styles = evaluate(code.slice(open + 1, close));
+    if (typeof styles !== "object" || styles === null) continue;
+
+    const callee = CALLEE_RE.exec(code.slice(start, i));
+    if (!callee) continue;
+
+    const before = code.slice(start, i - callee[0].length);
+    if (MEMBER_RE.test(before)) continue;
+
+    const className = sheet.registerStyle(styles as Styles);
+
+    result += before;
+    result += JSON.stringify(className);
+    start = close + 1;
+    i = close;
+  }
+
+  return result + code.slice(start);
+}
+
+/**
+ * Extract styles from files, returning the CSS and the transformed code.
+ */
+export async function extract(
+  paths: string[],
+  sheet: Sheet = create(),
+): Promise<Extracted> {
+  const files = new Map<string, string>();
+
+  for (const path of paths) {
+    files.set(path, transform(await readFile(path, "utf8"), sheet));
+  }
+
+  return { css: sheet.getStyles(), files };
+}
+
+/**
+ * Minimal esbuild plugin build interface.
+ */
+interface EsbuildBuild {
+  initialOptions: { outdir?: string };
+  onLoad(
+    options: { filter: RegExp },
+    callback: (args: {
+      path: string;
+    }) => Promise<{ contents: string; loader: string }>,
+  ): void;
+  onEnd(callback: () => Promise<void>): void;
+}
+
+/**
+ * Minimal Rollup and Vite plugin context interface.
+ */
+interface RollupContext {
+  emitFile(file: { type: "asset"; fileName: string; source: string }): string;
+}
+
+/**
+ * Build plugin for esbuild, Rollup and Vite, replacing static `registerStyle`
+ * calls and writing the extracted CSS to `fileName`.
+ */
+export function extractPlugin(options: ExtractOptions = {}) {
+  const {
+    sheet = create(),
+    fileName = "styles.css",
+    include = INCLUDE_RE,
+  } = options;
+
+  return {
+    name: "free-style-extract",
+    // esbuild.
+    setup(build: EsbuildBuild) {
+      build.onLoad({ filter: include }, async ({ path }) => ({
+        contents: transform(await readFile(path, "utf8"), sheet),
+        loader: path.replace(/^.*\.[cm]?/, ""),
+      }));
+
+      build.onEnd(async () => {
+        const { outdir = "." } = build.initialOptions;
+        await writeFile(`${outdir}/${fileName}`, sheet.getStyles());
+      });
+    },
+    // Rollup and Vite.
+    transform(code: string, id: string) {
+      if (!include.test(id)) return null;
+      return { code: transform(code, sheet), map: null };
+    },
+    generateBundle(this: RollupContext) {
+      this.emitFile({ type: "asset", fileName, source: sheet.getStyles() });
+    },
+  };
+}
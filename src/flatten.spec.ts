@@ -0,0 +1,136 @@
+import { describe, it, expect } from "vitest";
+import { compile, create } from "./index.js";
+import { flattener } from "./flatten.js";
+
+describe("flatten", () => {
+  it("should combine nested media queries", () => {
+    const sheet = create(undefined, "", { flatten: flattener() });
+
+    const className = sheet.registerStyle({
+      "@media print": {
+        color: "red",
+        "@media (min-width: 400px)": {
+          color: "blue",
+          "@media (max-width: 800px)": { color: "green" },
+        },
+      },
+    });
+
+    expect(sheet.getStyles()).toEqual(
+      `@media print{.${className}{color:red}}` +
+        `@media print and (min-width: 400px){.${className}{color:blue}}` +
+        `@media print and (min-width: 400px) and (max-width: 800px){.${className}{color:green}}`,
+    );
+  });
+
+  it("should combine media query lists", () => {
+    const sheet = create(undefined, "", { flatten: flattener() });
+
+    sheet.registerStyle({
+      $global: true,
+      "@media screen, print": {
+        "@media (min-width: 400px), (orientation: portrait)": {
+          body: { margin: 0 },
+        },
+      },
+    });
+
+    expect(sheet.getStyles()).toEqual(
+      "@media screen and (min-width: 400px), screen and (orientation: portrait), " +
+        "print and (min-width: 400px), print and (orientation: portrait){body{margin:0}}",
+    );
+  });
+
+  it("should combine supports and container rules", () => {
+    const sheet = create(undefined, "", { flatten: flattener() });
+
+    const className = sheet.registerStyle({
+      "@supports (display: grid)": {
+        "@supports not (gap: 0)": { display: "grid" },
+      },
+      "@container card (min-width: 400px)": {
+        "@container card (max-width: 800px)": { color: "red" },
+      },
+    });
+
+    expect(sheet.getStyles()).toEqual(
+      `@supports (display: grid) and (not (gap: 0)){.${className}{display:grid}}` +
+        `@container card (min-width: 400px) and (max-width: 800px){.${className}{color:red}}`,
+    );
+  });
+
+  it("should keep nesting when conditions can not be combined", () => {
+    const sheet = create(undefined, "", { flatten: flattener() });
+
+    const className = sheet.registerStyle({
+      "@media not print": {
+        "@media (min-width: 400px)": { color: "red" },
+      },
+      "@container a (min-width: 400px)": {
+        "@container (max-width: 800px)": { color: "blue" },
+      },
+      "@media screen": {
+        "@supports (display: grid)": {
+          "@media (min-width: 400px)": { display: "grid" },
+        },
+      },
+    });
+
+    expect(sheet.getStyles()).toEqual(
+      `@media not print{@media (min-width: 400px){.${className}{color:red}}}` +
+        `@container a (min-width: 400px){@container (max-width: 800px){.${className}{color:blue}}}` +
+        `@media screen{@supports (display: grid){@media (min-width: 400px){.${className}{display:grid}}}}`,
+    );
+  });
+
+  it("should split the outer rule to keep the output order", () => {
+    const sheet = create(undefined, "", { flatten: flattener() });
+
+    const className = sheet.registerStyle({
+      "@media print": {
+        "@media (min-width: 400px)": {
+          color: "red",
+          "@supports (display: grid)": { display: "grid" },
+          "@media (max-width: 800px)": { color: "blue" },
+        },
+        "@supports (display: flex)": { display: "flex" },
+      },
+    });
+
+    expect(sheet.getStyles()).toEqual(
+      `@media print and (min-width: 400px){.${className}{color:red}` +
+        `@supports (display: grid){.${className}{display:grid}}}` +
+        `@media print and (min-width: 400px) and (max-width: 800px){.${className}{color:blue}}` +
+        `@media print{@supports (display: flex){.${className}{display:flex}}}`,
+    );
+  });
+
+  it("should merge flattened rules with matching rules", () => {
+    const sheet = create(undefined, "", { flatten: flattener() });
+
+    const styles = {
+      "@media print": {
+        "@media (min-width: 400px)": { color: "red" },
+      },
+      "@media print and (min-width: 400px)": {
+        "& a": { color: "blue" },
+      },
+    };
+
+    const className1 = sheet.registerStyle(styles);
+    const className2 = sheet.registerStyle({ ...styles, $displayName: "a" });
+
+    expect(sheet.getStyles()).toEqual(
+      `@media print and (min-width: 400px){.${className1},.${className2}{color:red}` +
+        `.${className1} a,.${className2} a{color:blue}}`,
+    );
+  });
+
+  it("should hash differently when flattened", () => {
+    const styles = { "@media print": { "@media (min-width: 0)": {} } };
+
+    expect(compile(styles, { flatten: flattener() }).id).not.toEqual(
+      compile(styles).id,
+    );
+  });
+});
@@ -0,0 +1,123 @@
+import type { CompiledRule, Flattener } from "./index.js";
+import { scan, split } from "./scan.js";
+
+/**
+ * Match conditional group rules supported by `flattener`.
+ */
+const CONDITION_RE = /^@(media|supports|container)\s+(.+)$/;
+
+/**
+ * Split a container query into the optional container name and condition.
+ */
+const CONTAINER_RE = /^(?:(?!not\s)([a-zA-Z_-][\w-]*)\s+)?(.*)$/;
+
+/**
+ * Media queries unable to be combined with another query using `and`.
+ */
+const MEDIA_UNSAFE_RE = /^not\b|\sor\s/i;
+
+/**
+ * Wrap a condition in parentheses unless it's already a single group.
+ */
+function group(condition: string) {
+  let groups = 0;
+  let end = -1;
+
+  scan(condition, (char, index, depth) => {
+    if (char === "(" && depth === 1) groups++;
+    if (char === ")" && depth === 0 && end === -1) end = index;
+  });
+
+  return groups === 1 && condition[0] === "(" && end === condition.length - 1
+    ? condition
+    : `(${condition})`;
+}
+
+/**
+ * Combine nested conditional rules of the same kind into a single rule,
+ * returns `undefined` when the conditions can not be combined.
+ */
+function flattenRule(outer: string, inner: string): string | undefined {
+  const outerMatch = CONDITION_RE.exec(outer);
+  const innerMatch = CONDITION_RE.exec(inner);
+
+  if (!outerMatch || !innerMatch || outerMatch[1] !== innerMatch[1]) return;
+
+  const [, kind, a] = outerMatch;
+  const b = innerMatch[2];
+
+  if (kind === "supports") return `@supports ${group(a)} and ${group(b)}`;
+
+  if (kind === "container") {
+    const [, nameA = "", queryA] = CONTAINER_RE.exec(a)!;
+    const [, nameB = "", queryB] = CONTAINER_RE.exec(b)!;
+    if (nameA !== nameB) return;
+    const name = nameA ? `${nameA} ` : "";
+    return `@container ${name}${group(queryA)} and ${group(queryB)}`;
+  }
+
+  const queriesA = split(a);
+  const queriesB = split(b);
+
+  // Negated queries, media types and `or` can't be joined using `and`.
+  if (queriesA.some((x) => MEDIA_UNSAFE_RE.test(x))) return;
+  if (queriesB.some((x) => x[0] !== "(" || MEDIA_UNSAFE_RE.test(x))) return;
+
+  return `@media ${queriesA
+    .flatMap((x) => queriesB.map((y) => `${x} and ${y}`))
+    .join(", ")}`;
+}
+
+/**
+ * Check the compiled rule has no nested styles or rules.
+ */
+function isEmpty(rule: CompiledRule) {
+  return !rule.styles.length && !rule.rules.length;
+}
+
+/**
+ * Move combined rules out of the rule they were nested in, after the rule has
+ * been compiled. The rule is split around them to keep the output order, e.g.
+ * `@media print{@media (a){}@supports (b){}}` outputs `@media print and (a)`
+ * before `@media print{@supports (b){}}`.
+ */
+function unnest(
+  rulesList: CompiledRule[],
+  rule: CompiledRule,
+  flattened: Set<CompiledRule>,
+) {
+  const isFlat = flattened.has(rule);
+  let current: CompiledRule | undefined = rule;
+
+  for (const item of rule.rules.splice(0)) {
+    if (flattened.has(item)) {
+      // Combined rules stay combined only while moving into a combined rule.
+      if (!isFlat) flattened.delete(item);
+      rulesList.push(item);
+      current = undefined;
+      continue;
+    }
+
+    if (!current) {
+      current = { selector: rule.selector, style: "", rules: [], styles: [] };
+      if (isFlat) flattened.add(current);
+      rulesList.push(current);
+    }
+
+    current.rules.push(item);
+  }
+
+  // Remove rules left empty after moving every nested rule out.
+  if (!rule.style && isEmpty(rule)) {
+    rulesList.splice(rulesList.indexOf(rule), 1);
+  }
+}
+
+/**
+ * Combine nested `@media`, `@supports` and `@container` rules, e.g.
+ * `@media print { @media (min-width: 500px) {} }` becomes
+ * `@media print and (min-width: 500px) {}`.
+ */
+export function flattener(): Flattener {
+  return { combine: flattenRule, unnest };
+}
@@ -0,0 +1,56 @@
+import type { CompiledRule, CompiledStyle, CompileOptions } from "./index.js";
+
+/**
+ * Generate a hash value from a string.
+ */
+function stringHash(str: string): string {
+  let value = 5381;
+  let len = str.length;
+  while (len--) value = (value * 33) ^ str.charCodeAt(len);
+  return (value >>> 0).toString(36);
+}
+
+/**
+ * Get the hash function from compile options.
+ */
+export function getHash({ hash = stringHash, hashLength }: CompileOptions) {
+  if (!hashLength) return hash;
+  return (value: string) => hash(value).slice(0, hashLength);
+}
+
+/**
+ * Serialize compiled styles and rules, identical CSS has an identical string.
+ */
+function stringify(styles: CompiledStyle[], rules: CompiledRule[]): string {
+  let pid = "";
+
+  for (const { selector, style, isUnique } of styles) {
+    pid += `|${selector}${isUnique ? "!" : ""}{${style}}`;
+  }
+
+  for (const { selector, style, styles: s, rules: r } of rules) {
+    pid += `|${selector}{${style}${stringify(s, r)}}`;
+  }
+
+  return pid;
+}
+
+/**
+ * Content used to generate the `id` of compiled styles and rules, shared by
+ * `compile` and `compose` so the same CSS and options has the same `id`.
+ */
+export function getPid(
+  styles: CompiledStyle[],
+  rules: CompiledRule[],
+  options: CompileOptions,
+): string {
+  const { plugins = [], rtl, flatten, unit = "px", units, unitless } = options;
+  let pid = stringify(styles, rules);
+  if (plugins.length) pid += `|${plugins.map((x) => x.name).join(",")}`;
+  if (rtl) pid += `|rtl:${rtl.overrides ? "dual" : true}`;
+  if (flatten) pid += "|flatten";
+  if (units || unitless || unit !== "px") {
+    pid += `|units:${JSON.stringify([options.unit, units, unitless])}`;
+  }
+  return pid;
+}
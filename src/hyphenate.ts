@@ -0,0 +1,9 @@
+/**
+ * Transform a JavaScript property into a CSS property.
+ */
+export function hyphenate(propertyName: string): string {
+  if (propertyName.startsWith("--")) return propertyName; // Case sensitive.
+  return propertyName
+    .replace(/[A-Z]/g, (m: string) => `-${m.toLowerCase()}`)
+    .replace(/^ms-/, "-ms-"); // Internet Explorer vendor prefix.
+}
@@ -1,5 +1,8 @@
 import { describe, it, expect, beforeAll, afterAll } from "vitest";
-import { create } from "./index.js";
+import { compile, create, Rule, Selector, Style } from "./index.js";
+import type { Plugin } from "./index.js";
+import { atomizer } from "./atomic.js";
+import { rtl } from "./rtl.js";
 
 describe("free style", () => {
   it("should output class name hash", () => {
@@ -602,6 +605,296 @@ describe("free style", () => {
     expect(added).toHaveLength(4); // Style x2, @media x2.
   });
 
+  it("should emit insertion indexes", () => {
+    const indexes: number[] = [];
+
+    const sheet = create({
+      add(style, index) {
+        indexes.push(index);
+      },
+      change() {},
+      remove() {},
+    });
+
+    sheet.registerStyle({ color: "red" });
+    sheet.registerStyle({ color: "blue" });
+
+    expect(indexes).toEqual([0, 1]);
+  });
+
+  describe("plugins", () => {
+    const tokens: Plugin = {
+      name: "tokens",
+      value(value) {
+        return value === "$primary" ? "blue" : value;
+      },
+    };
+
+    it("should transform property names and values", () => {
+      const sheet = create(undefined, "", {
+        plugins: [
+          tokens,
+          {
+            name: "prefix",
+            property(property) {
+              return property === "user-select"
+                ? ["-webkit-user-select", property]
+                : property;
+            },
+          },
+        ],
+      });
+
+      const className = sheet.registerStyle({
+        color: "$primary",
+        userSelect: "none",
+        background: ["red", "$primary"],
+      });
+
+      expect(sheet.getStyles()).toEqual(
+        `.${className}{color:blue;-webkit-user-select:none;user-select:none;background:red;background:blue}`,
+      );
+    });
+
+    it("should remove null values", () => {
+      const sheet = create(undefined, "", {
+        plugins: [
+          { name: "no-float", value: (x, p) => (p === "float" ? null : x) },
+        ],
+      });
+
+      const className = sheet.registerStyle({ float: "left", color: "red" });
+
+      expect(sheet.getStyles()).toEqual(`.${className}{color:red}`);
+    });
+
+    it("should transform selectors and rules", () => {
+      const sheet = create(undefined, "", {
+        plugins: [
+          {
+            name: "custom",
+            selector(selector) {
+              return selector === "&::placeholder"
+                ? ["&::-moz-placeholder", selector]
+                : selector;
+            },
+            rule(rule) {
+              return rule.replace("--tablet", "(min-width: 768px)");
+            },
+          },
+        ],
+      });
+
+      const className = sheet.registerStyle({
+        "&::placeholder": { color: "red" },
+        "@media --tablet": { color: "blue" },
+      });
+
+      expect(sheet.getStyles()).toEqual(
+        `.${className}::-moz-placeholder{color:red}.${className}::placeholder{color:red}` +
+          `@media (min-width: 768px){.${className}{color:blue}}`,
+      );
+    });
+
+    it("should include plugins in the hash", () => {
+      const styles = { color: "red" };
+      const identity: Plugin = { name: "identity" };
+
+      expect(compile(styles).id).not.toEqual(
+        compile(styles, { plugins: [identity] }).id,
+      );
+      expect(compile(styles, { plugins: [identity] }).id).not.toEqual(
+        compile(styles, { plugins: [identity, tokens] }).id,
+      );
+      expect(compile(styles, { plugins: [tokens] }).id).toEqual(
+        compile(styles, { plugins: [tokens] }).id,
+      );
+    });
+  });
+
+  describe("layers", () => {
+    it("should output the layer statement first", () => {
+      const sheet = create(undefined, "", { layers: ["reset", "app"] });
+      const className = sheet.registerStyle({ color: "red" });
+
+      expect(sheet.getStyles()).toEqual(
+        `@layer reset,app;.${className}{color:red}`,
+      );
+    });
+
+    it("should merge styles in the same layer", () => {
+      const sheet = create(undefined, "", { layers: ["reset", "app"] });
+
+      const className1 = sheet.registerStyle({
+        $layer: "app",
+        color: "red",
+      });
+
+      const className2 = sheet.registerStyle({
+        $layer: "app",
+        color: "blue",
+        "&:hover": { color: "green" },
+      });
+
+      sheet.registerStyle({
+        $global: true,
+        $layer: "reset",
+        body: { margin: 0 },
+      });
+
+      expect(sheet.getStyles()).toEqual(
+        "@layer reset,app;" +
+          `@layer app{.${className1}{color:red}.${className2}{color:blue}.${className2}:hover{color:green}}` +
+          "@layer reset{body{margin:0}}",
+      );
+    });
+
+    it("should merge nested layer keys", () => {
+      const sheet = create();
+
+      const className = sheet.registerStyle({
+        "@media print": {
+          $layer: "app",
+          color: "red",
+        },
+      });
+
+      sheet.registerStyle({ "@layer app": { color: "blue" } });
+
+      expect(sheet.values()).toHaveLength(2);
+      expect(sheet.getStyles()).toContain(
+        `@media print{@layer app{.${className}{color:red}}}`,
+      );
+    });
+
+    it("should remove styles from layers", () => {
+      const sheet = create();
+      const compiled = compile({ $layer: "app", color: "blue" });
+      const className = sheet.registerStyle({ $layer: "app", color: "red" });
+
+      sheet.register(compiled);
+      sheet.unregister(compiled);
+
+      expect(sheet.getStyles()).toEqual(`@layer app{.${className}{color:red}}`);
+    });
+  });
+
+  describe("unregister", () => {
+    it("should remove styles when nothing references them", () => {
+      const removed: unknown[] = [];
+      const sheet = create({
+        add() {},
+        change() {},
+        remove(style) {
+          removed.push(style);
+        },
+      });
+
+      const compiled = compile({
+        color: "red",
+        "@media print": { color: "blue" },
+      });
+
+      const className1 = sheet.register(compiled);
+      const className2 = sheet.register(compiled);
+
+      expect(sheet.unregister(compiled)).toEqual(className1);
+      expect(sheet.getStyles()).toEqual(
+        `.${className2}{color:red}@media print{.${className2}{color:blue}}`,
+      );
+      expect(removed).toHaveLength(0);
+
+      sheet.unregister(compiled);
+      expect(sheet.getStyles()).toEqual("");
+      expect(removed).toHaveLength(2);
+    });
+
+    it("should keep styles shared with other registrations", () => {
+      const sheet = create();
+      const compiled = compile({ color: "red" });
+      const className = sheet.registerStyle({
+        color: "red",
+        $displayName: "a",
+      });
+
+      sheet.register(compiled);
+      sheet.unregister(compiled);
+
+      expect(sheet.getStyles()).toEqual(`.${className}{color:red}`);
+    });
+
+    it("should remove selectors from merged rules", () => {
+      const changed: unknown[] = [];
+      const sheet = create({
+        add() {},
+        change(style) {
+          changed.push(style);
+        },
+        remove() {},
+      });
+
+      const styles = { "@media print": { color: "red" } };
+      const compiled = compile({ ...styles, $displayName: "b" });
+      const className = sheet.registerStyle({ ...styles, $displayName: "a" });
+
+      sheet.register(compiled);
+      sheet.unregister(compiled);
+
+      expect(changed).toHaveLength(2);
+      expect(sheet.getStyles()).toEqual(
+        `@media print{.${className}{color:red}}`,
+      );
+    });
+
+    it("should remove unique styles", () => {
+      const sheet = create();
+      const compiled = compile({
+        color: "blue",
+        "&::placeholder": { color: "red", $unique: true },
+        "&::-moz-placeholder": { color: "red", $unique: true },
+      });
+
+      sheet.register(compiled);
+      expect(sheet.values()).toHaveLength(3);
+
+      sheet.unregister(compiled);
+      expect(sheet.getStyles()).toEqual("");
+    });
+
+    it("should forget class names when nothing references them", () => {
+      const sheet = create();
+      const compiled = compile({ color: "red" });
+      const atomic = compile(
+        { color: "red", margin: 0 },
+        { atomic: atomizer() },
+      );
+
+      for (let i = 0; i < 1000; i++) {
+        sheet.register(compiled);
+        sheet.register(atomic);
+        sheet.unregister(compiled);
+        sheet.unregister(atomic);
+      }
+
+      expect(sheet.classNames().size).toEqual(0);
+
+      const className = sheet.register(compiled);
+      sheet.register(compiled);
+      sheet.unregister(compiled);
+
+      expect([...sheet.classNames().keys()]).toEqual([className]);
+    });
+
+    it("should ignore styles that are not registered", () => {
+      const sheet = create();
+      const className = sheet.registerStyle({ color: "red" });
+
+      sheet.unregister(compile({ color: "blue" }));
+
+      expect(sheet.getStyles()).toEqual(`.${className}{color:red}`);
+    });
+  });
+
   it("should escape css selectors", () => {
     const sheet = create();
     const $displayName = "Connect(App)";
@@ -641,6 +934,230 @@ describe("free style", () => {
     expect(sheet.getStyles()).toEqual(`.${className}{color:red}`);
   });
 
+  describe("selector lists", () => {
+    it("should scope every child selector", () => {
+      const sheet = create();
+
+      const className = sheet.registerStyle({
+        "a, b": { color: "red" },
+      });
+
+      expect(sheet.getStyles()).toEqual(
+        `.${className} a,.${className} b{color:red}`,
+      );
+    });
+
+    it("should expand parent and child selector lists", () => {
+      const sheet = create();
+
+      sheet.registerStyle({
+        $global: true,
+        "h1, h2": {
+          "& span, a": { color: "red" },
+        },
+      });
+
+      expect(sheet.getStyles()).toEqual("h1 span,h2 span,h1 a,h2 a{color:red}");
+    });
+
+    it("should expand deeply nested selector lists", () => {
+      const sheet = create();
+
+      const className = sheet.registerStyle({
+        "&:hover, &:focus": {
+          "a, b": {
+            "@media print": {
+              "& > i, & > em": { color: "red" },
+            },
+          },
+        },
+      });
+
+      const parents = [
+        `.${className}:hover a`,
+        `.${className}:focus a`,
+        `.${className}:hover b`,
+        `.${className}:focus b`,
+      ];
+
+      expect(sheet.getStyles()).toEqual(
+        `@media print{${[
+          ...parents.map((x) => `${x} > i`),
+          ...parents.map((x) => `${x} > em`),
+        ].join(",")}{color:red}}`,
+      );
+    });
+
+    it("should ignore commas in functions, attributes and strings", () => {
+      const sheet = create();
+
+      const className = sheet.registerStyle({
+        ':is(a, b) [title="c, d"], :not(e, f)': { color: "red" },
+        "[data-x='g, &']": { color: "blue" },
+      });
+
+      expect(sheet.getStyles()).toEqual(
+        `.${className} :is(a, b) [title="c, d"],.${className} :not(e, f){color:red}` +
+          `.${className} [data-x='g, &']{color:blue}`,
+      );
+    });
+
+    it("should expand `&` inside functions with a parent list", () => {
+      const sheet = create();
+
+      sheet.registerStyle({
+        $global: true,
+        "a, b": {
+          ":is(&, c) + &": { color: "red" },
+        },
+      });
+
+      expect(sheet.getStyles()).toEqual(
+        ":is(a, c) + a,:is(b, c) + b{color:red}",
+      );
+    });
+
+    it("should not interpolate escaped `&`", () => {
+      const sheet = create();
+
+      const className = sheet.registerStyle({
+        ".a\\&b": { color: "red" },
+        "&.c\\&d": { color: "blue" },
+      });
+
+      expect(sheet.getStyles()).toEqual(
+        `.${className} .a\\&b{color:red}.${className}.c\\&d{color:blue}`,
+      );
+    });
+
+    it("should expand rtl overrides for each selector", () => {
+      const sheet = create(undefined, "", { rtl: rtl("dual") });
+
+      sheet.registerStyle({
+        $global: true,
+        "a, b": { marginLeft: 0 },
+      });
+
+      expect(sheet.getStyles()).toEqual(
+        "a, b{margin-left:0}" +
+          "[dir=rtl] a,[dir=rtl] b{margin-left:initial;margin-right:0}",
+      );
+    });
+  });
+
+  describe("units", () => {
+    it("should use the default unit", () => {
+      const sheet = create(undefined, "", { unit: "rem" });
+
+      const className = sheet.registerStyle({
+        margin: 1,
+        padding: 0,
+        lineHeight: 1.5,
+      });
+
+      expect(sheet.getStyles()).toEqual(
+        `.${className}{margin:1rem;padding:0;line-height:1.5}`,
+      );
+    });
+
+    it("should use units by property", () => {
+      const sheet = create(undefined, "", {
+        units: { lineHeight: "em", "font-size": "rem" },
+      });
+
+      const className = sheet.registerStyle({
+        fontSize: 2,
+        lineHeight: 1.5,
+        width: 10,
+      });
+
+      expect(sheet.getStyles()).toEqual(
+        `.${className}{font-size:2rem;line-height:1.5em;width:10px}`,
+      );
+    });
+
+    it("should add and remove unit-less properties", () => {
+      const sheet = create(undefined, "", {
+        unitless: { aspectRatio: true, "--columns": true, zIndex: false },
+      });
+
+      const className = sheet.registerStyle({
+        "--columns": 3,
+        aspectRatio: 2,
+        zIndex: 1,
+      });
+
+      expect(sheet.getStyles()).toEqual(
+        `.${className}{--columns:3;aspect-ratio:2;z-index:1px}`,
+      );
+    });
+
+    it("should hash differently for each unit config", () => {
+      const styles = { color: "red" };
+
+      expect(compile(styles, { unit: "rem" }).id).not.toEqual(
+        compile(styles).id,
+      );
+      expect(compile(styles, { unitless: { gap: true } }).id).not.toEqual(
+        compile(styles, { unitless: { gap: false } }).id,
+      );
+      expect(compile(styles, { unit: "px" }).id).toEqual(compile(styles).id);
+    });
+
+    it("should use units in rtl overrides", () => {
+      const sheet = create(undefined, "", { rtl: rtl("dual"), unit: "em" });
+
+      const className = sheet.registerStyle({ marginLeft: 1 });
+
+      expect(sheet.getStyles()).toEqual(
+        `.${className}{margin-left:1em}` +
+          `[dir=rtl] .${className}{margin-left:initial;margin-right:1em}`,
+      );
+    });
+  });
+
+  describe("hash", () => {
+    it("should use a custom hash function", () => {
+      const sheet = create(undefined, "", { hash: (x) => `h${x.length}` });
+      const className = sheet.registerStyle({ color: "red" });
+
+      expect(className).toMatch(/^h\d+$/);
+      expect(sheet.getStyles()).toEqual(`.${className}{color:red}`);
+    });
+
+    it("should truncate to the hash length", () => {
+      const { id } = compile({ color: "red" });
+
+      expect(compile({ color: "red" }, { hashLength: 3 }).id).toEqual(
+        id.slice(0, 3),
+      );
+    });
+
+    it("should throw on hash collisions", () => {
+      const sheet = create(undefined, "", { hash: () => "x" });
+
+      sheet.registerStyle({ color: "red" });
+      sheet.registerStyle({ color: "red" });
+
+      expect(() => sheet.registerStyle({ color: "blue" })).toThrow(TypeError);
+    });
+
+    it("should rehash on collisions", () => {
+      let count = 0;
+      const sheet = create(undefined, "", {
+        hash: () => (count++ < 2 ? "x" : "y"),
+        collisions: "rehash",
+      });
+
+      const className1 = sheet.registerStyle({ color: "red" });
+      const className2 = sheet.registerStyle({ color: "blue" });
+
+      expect(className1).toEqual("x");
+      expect(className2).toEqual("y");
+      expect(sheet.getStyles()).toEqual(".x{color:red}.y{color:blue}");
+    });
+  });
+
   describe("in production", () => {
     const PREV_NODE_ENV = process.env.NODE_ENV;
 
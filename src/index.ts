@@ -1,13 +1,17 @@
-/**
- * The unique id is used for unique hashes.
- */
-let uniqueId = 0;
+import { getHash, getPid } from "./hash.js";
+import { hyphenate } from "./hyphenate.js";
+import { scan, split } from "./scan.js";
 
 /**
  * Valid CSS property values.
  */
 export type PropertyValue = number | boolean | string | null | undefined;
 
+/**
+ * Compiled styles or class names to extend using `$extend`.
+ */
+export type Extend = Compiled | string | Array<Compiled | string>;
+
 /**
  * Input styles object.
  */
@@ -15,9 +19,23 @@ export interface Styles {
   $unique?: boolean;
   $global?: boolean;
   $displayName?: string;
+  $noflip?: boolean;
+  $layer?: string;
   [selector: string]: PropertyValue | PropertyValue[] | Styles;
 }
 
+/**
+ * Styles accepted by `compile` and `registerStyle`, allowing `$extend` at the
+ * top level only.
+ */
+export type ExtendStyles<T> = {
+  [K in keyof T]: K extends "$extend"
+    ? Extend
+    : K extends keyof Styles
+      ? Styles[K]
+      : Styles[string];
+};
+
 /**
  * Quick dictionary lookup for unit-less numbers.
  */
@@ -91,37 +109,59 @@ function escape(str: string) {
 }
 
 /**
- * Interpolate the `&` with style name.
+ * Find the indexes of unescaped `&` in a selector.
  */
-function interpolate(selector: string, styleName: string) {
-  return selector.replace(/&/g, styleName);
+function parents(selector: string): number[] {
+  const indexes: number[] = [];
+  scan(selector, (char, index) => {
+    if (char === "&") indexes.push(index);
+  });
+  return indexes;
 }
 
 /**
- * Transform a JavaScript property into a CSS property.
+ * Replace each `&` in a single selector with the parent.
  */
-function hyphenate(propertyName: string): string {
-  return propertyName
-    .replace(/[A-Z]/g, (m: string) => `-${m.toLowerCase()}`)
-    .replace(/^ms-/, "-ms-"); // Internet Explorer vendor prefix.
+function replace(selector: string, parent: string) {
+  let result = "";
+  let start = 0;
+
+  for (const index of parents(selector)) {
+    result += selector.slice(start, index) + parent;
+    start = index + 1;
+  }
+
+  return result + selector.slice(start);
 }
 
 /**
- * Generate a hash value from a string.
+ * Interpolate the `&` with style name, expanding each selector in the list
+ * for every parent selector (e.g. `& a, & b` with `.x, .y`).
  */
-function stringHash(str: string): string {
-  let value = 5381;
-  let len = str.length;
-  while (len--) value = (value * 33) ^ str.charCodeAt(len);
-  return (value >>> 0).toString(36);
+function interpolate(selector: string, styleName: string) {
+  if (selector.indexOf("&") === -1) return selector;
+  if (styleName.indexOf(",") === -1) return replace(selector, styleName);
+
+  const names = split(styleName);
+  if (names.length === 1) return replace(selector, styleName);
+
+  return split(selector)
+    .flatMap((x) =>
+      parents(x).length ? names.map((name) => replace(x, name)) : [x],
+    )
+    .join(",");
 }
 
 /**
  * Interpolate CSS selectors.
  */
 function child(selector: string, parent: string) {
-  if (selector.indexOf("&") === -1) return `${parent} ${selector}`;
-  return interpolate(selector, parent);
+  const selectors = selector.indexOf(",") === -1 ? [selector] : split(selector);
+
+  return interpolate(
+    selectors.map((x) => (parents(x).length ? x : `& ${x}`)).join(","),
+    parent,
+  );
 }
 
 export interface CompiledStyle {
@@ -145,6 +185,171 @@ export interface Compiled {
   rules: CompiledRule[];
   styles: CompiledStyle[];
   displayName: string | undefined;
+  /** Content used to generate the `id`, used to detect hash collisions. */
+  pid?: string;
+  /** Atomic styles registered as a list of class names. */
+  atoms?: Compiled[];
+}
+
+/**
+ * List style entries, `$` keys (e.g. `$extend`) must be skipped by the caller.
+ */
+function entries(styles: Styles) {
+  return Object.entries(styles) as Array<
+    Tuple<PropertyValue | PropertyValue[] | Styles>
+  >;
+}
+
+/**
+ * Compile-time transforms for style keys and values.
+ */
+export interface Plugin {
+  /** Unique name used in the style hash, include any options that change output. */
+  name: string;
+  /** Transform a hyphenated property name, return an array to expand it. */
+  property?(property: string): string | string[];
+  /** Transform a property value, return an array to overload it. */
+  value?(
+    value: NonNullable<PropertyValue>,
+    property: string,
+  ): PropertyValue | PropertyValue[];
+  /** Transform a nested selector, every expanded selector is `$unique`. */
+  selector?(selector: string): string | string[];
+  /** Transform an `@`-rule key, return an array to expand it. */
+  rule?(rule: string): string | string[];
+}
+
+/**
+ * Style declaration passed to `validate` in development.
+ */
+export interface Declaration {
+  property: string;
+  value: NonNullable<PropertyValue>;
+  displayName: string | undefined;
+  /** Nested selectors and `@`-rules leading to the declaration. */
+  path: string[];
+}
+
+/**
+ * Flip declarations between left-to-right and right-to-left, e.g. `rtl()` from
+ * `free-style/rtl`.
+ */
+export interface Flipper {
+  flip(
+    declaration: [string, NonNullable<PropertyValue>],
+  ): [string, NonNullable<PropertyValue>];
+  /** Keep the original styles and return the `[dir=rtl]` overrides. */
+  overrides?(
+    declarations: Array<[string, NonNullable<PropertyValue>]>,
+    flipped: Array<[string, NonNullable<PropertyValue>]>,
+  ): Array<[string, NonNullable<PropertyValue>]>;
+}
+
+/**
+ * Transform declarations before they're output, e.g. `optimizer()` from
+ * `free-style/optimize`.
+ */
+export interface Optimizer {
+  /** Transform the declarations, `format` adds the unit to number values. */
+  declarations(
+    declarations: Array<[string, PropertyValue | PropertyValue[]]>,
+    format: (property: string, value: NonNullable<PropertyValue>) => string,
+  ): Array<[string, PropertyValue | PropertyValue[]]>;
+  /** Transform a string value, custom properties are never transformed. */
+  value(value: string, property: string): string;
+}
+
+/**
+ * Merge compiled styles for `$extend`, later styles override earlier styles.
+ */
+export type Extender = (
+  compiled: Compiled[],
+  options: CompileOptions,
+) => Compiled;
+
+/**
+ * Split styles into atomic styles, `compile` outputs the class name repeated
+ * `specificity + 1` times.
+ */
+export type Atomizer = (
+  styles: Styles,
+  compile: (styles: Styles, specificity: number) => Compiled,
+) => Compiled[];
+
+/**
+ * Combine nested `@`-rules, e.g. `flattener()` from `free-style/flatten`.
+ */
+export interface Flattener {
+  /** Combine an `@`-rule with the outer rule, `undefined` keeps it nested. */
+  combine(outer: string, inner: string): string | undefined;
+  /** Move combined rules out of the compiled rule they were nested in. */
+  unnest(
+    rulesList: CompiledRule[],
+    rule: CompiledRule,
+    flattened: Set<CompiledRule>,
+  ): void;
+}
+
+/**
+ * Options used to compile styles.
+ */
+export interface CompileOptions {
+  plugins?: Plugin[];
+  /** Flip physical directions for RTL. */
+  rtl?: Flipper;
+  /** Compile atomic styles, e.g. `atomizer()` from `free-style/atomic`. */
+  atomic?: Atomizer;
+  /** Merge styles for `$extend`, e.g. `extender()` from `free-style/compose`. */
+  extend?: Extender;
+  /** Hash function used to generate class names. */
+  hash?: (value: string) => string;
+  /** Maximum length of the generated hash. */
+  hashLength?: number;
+  /** Check each declaration in development, ignored in production. */
+  validate?: (declaration: Declaration) => void;
+  /** Combine nested `@`-rules, e.g. `flattener()` from `free-style/flatten`. */
+  flatten?: Flattener;
+  /** Unit appended to numbers, defaults to `px`. */
+  unit?: string;
+  /** Units by property, e.g. `{ lineHeight: "em" }`. */
+  units?: Record<string, string>;
+  /** Add (`true`) or remove (`false`) unit-less properties. */
+  unitless?: Record<string, boolean>;
+  /** Remove overridden declarations and shorten values. */
+  optimize?: Optimizer;
+}
+
+/**
+ * Options used to create a sheet.
+ */
+export interface SheetOptions extends CompileOptions {
+  /** Cascade layer order, output as an `@layer` statement before all styles. */
+  layers?: string[];
+  /** Handle hash collisions in development, defaults to `"throw"`. */
+  collisions?: "throw" | "rehash";
+  /** Sort new containers, e.g. `mediaOrder()` from `free-style/order`. */
+  order?: (
+    a: Rule | Style | LayerStatement,
+    b: Rule | Style | LayerStatement,
+  ) => number;
+}
+
+/**
+ * Normalized compile options passed through `stylize`.
+ */
+interface Context {
+  plugins: Plugin[];
+  rtl: Flipper | undefined;
+  validate: ((declaration: Declaration) => void) | undefined;
+  displayName: string | undefined;
+  path: string[];
+  flatten: Flattener | undefined;
+  /** Rules combined with a parent rule when `flatten` is enabled. */
+  flattened: Set<CompiledRule> | undefined;
+  unit: Unit;
+  optimize: Optimizer | undefined;
+  /** Closest `@`-rule, used by `flatten`. */
+  rule?: string;
 }
 
 /**
@@ -152,17 +357,84 @@ export interface Compiled {
  */
 type Tuple<T> = [string, T];
 
+/**
+ * Run a plugin hook over each value, hooks can expand a value into many.
+ */
+function pipe<T>(
+  values: T[],
+  plugins: Plugin[],
+  hook: (plugin: Plugin, value: T) => T | T[] | undefined,
+): T[] {
+  for (const plugin of plugins) {
+    values = values.flatMap((value) => {
+      const result = hook(plugin, value);
+      return result === undefined ? value : result;
+    });
+  }
+
+  return values;
+}
+
 /**
  * Transform a style string to a CSS string.
  */
-function tupleToStyle([name, value]: Tuple<NonNullable<PropertyValue>>) {
-  if (typeof value === "number" && value && !CSS_NUMBER.has(name)) {
-    return `${name}:${value}px`;
+function tupleToStyle(
+  [name, value]: Tuple<NonNullable<PropertyValue>>,
+  unit: Unit,
+) {
+  return `${name}:${formatValue(name, value, unit)}`;
+}
+
+/**
+ * Format a property value, adding the unit to numbers.
+ */
+function formatValue(
+  name: string,
+  value: NonNullable<PropertyValue>,
+  unit: Unit,
+) {
+  if (typeof value === "number" && value) return `${value}${unit(name)}`;
+
+  return String(value);
+}
+
+/**
+ * Get the unit appended to numbers for a property.
+ */
+type Unit = (property: string) => string;
+
+/**
+ * Append `px` to numbers unless the property is unit-less.
+ */
+function defaultUnit(property: string) {
+  return CSS_NUMBER.has(property) ? "" : "px";
+}
+
+/**
+ * Get the unit function from compile options.
+ */
+function getUnit({ unit = "px", units, unitless }: CompileOptions): Unit {
+  if (!units && !unitless && unit === "px") return defaultUnit;
+
+  const overrides = new Map<string, string>();
+
+  for (const [property, isUnitless] of Object.entries(unitless ?? {})) {
+    overrides.set(hyphenate(property), isUnitless ? "" : unit);
+  }
+
+  for (const [property, value] of Object.entries(units ?? {})) {
+    overrides.set(hyphenate(property), value);
   }
 
-  return `${name}:${String(value)}`;
+  return (property) =>
+    overrides.get(property) ?? (CSS_NUMBER.has(property) ? "" : unit);
 }
 
+/**
+ * Selector used to scope flipped styles in dual RTL mode.
+ */
+const RTL_SELECTOR = "[dir=rtl] &";
+
 /**
  * Recursive loop building styles with deferred selectors.
  */
@@ -172,77 +444,175 @@ function stylize(
   key: string,
   styles: Styles,
   parentClassName: string,
-) {
+  context: Context,
+): void {
+  // Move styles into a cascade layer block (e.g. `@layer components`).
+  if (styles.$layer) {
+    const { $layer, $global, ...layerStyles } = styles;
+    const layer = { $global, [`@layer ${$layer}`]: layerStyles };
+    return stylize(rulesList, stylesList, key, layer, parentClassName, context);
+  }
+
+  const { plugins, validate, optimize } = context;
   const properties: Array<Tuple<NonNullable<PropertyValue>>> = [];
   const nestedStyles: Array<Tuple<Styles>> = [];
+  let declarations: Array<Tuple<PropertyValue | PropertyValue[]>> = [];
 
   // Sort keys before adding to styles.
-  for (const [key, value] of Object.entries(styles)) {
+  for (const [key, value] of entries(styles)) {
     if (key.charCodeAt(0) !== 36 /* $ */ && value != null) {
-      if (Array.isArray(value)) {
-        const name = hyphenate(key);
-        for (let i = 0; i < value.length; i++) {
-          const style = value[i];
-          if (style != null) properties.push([name, style]);
-        }
-      } else if (typeof value === "object") {
+      if (typeof value === "object" && !Array.isArray(value)) {
         nestedStyles.push([key, value]);
-      } else {
-        properties.push([hyphenate(key), value]);
+        continue;
+      }
+
+      const property = hyphenate(key);
+
+      if (validate) {
+        for (const item of Array.isArray(value) ? value : [value]) {
+          if (item == null) continue;
+          const { displayName, path } = context;
+          validate({ property, value: item, displayName, path });
+        }
+      }
+
+      declarations.push([property, value]);
+    }
+  }
+
+  if (optimize) {
+    declarations = optimize.declarations(declarations, (name, value) =>
+      formatValue(name, value, context.unit),
+    );
+  }
+
+  for (const [property, value] of declarations) {
+    const names = pipe([property], plugins, (plugin, name) =>
+      plugin.property?.(name),
+    );
+
+    for (const name of names) {
+      const values = pipe(
+        Array.isArray(value) ? value : [value],
+        plugins,
+        (plugin, style) =>
+          style == null ? style : plugin.value?.(style, name),
+      );
+
+      for (const style of values) {
+        if (style == null) continue;
+        const isOptimized =
+          optimize && typeof style === "string" && !name.startsWith("--");
+        properties.push([
+          name,
+          isOptimized ? optimize.value(style, name) : style,
+        ]);
       }
     }
   }
 
   const isUnique = !!styles.$unique;
   const parent = styles.$global ? "" : parentClassName;
-  const style = properties.map(tupleToStyle).join(";");
-  let pid = style;
+  const rtl = styles.$noflip ? undefined : context.rtl;
+  const flipped = rtl ? properties.map((x) => rtl.flip(x)) : properties;
+  const style = (rtl && !rtl.overrides ? flipped : properties)
+    .map((x) => tupleToStyle(x, context.unit))
+    .join(";");
+  const rtlStyle = rtl?.overrides
+    ? rtl
+        .overrides(properties, flipped)
+        .map((x) => tupleToStyle(x, context.unit))
+        .join(";")
+    : "";
+  let childContext = rtl === context.rtl ? context : { ...context, rtl };
   let selector = parent;
   let childRules = rulesList;
   let childStyles = stylesList;
+  let rule: CompiledRule | undefined;
 
   if (key.charCodeAt(0) === 64 /* @ */) {
+    let ruleKey = key;
     childRules = [];
     childStyles = [];
 
+    // Combine nested conditions, moved out of the parent rule when done.
+    if (context.flattened) {
+      const flat = context.rule && context.flatten!.combine(context.rule, key);
+      if (flat) ruleKey = flat;
+      childContext = { ...childContext, rule: ruleKey };
+    }
+
     // Nested styles support (e.g. `.foo > @media`).
     if (parent && style) {
       childStyles.push({ selector, style, isUnique });
     }
 
+    if (parent && rtlStyle) {
+      const rtlSelector = interpolate(RTL_SELECTOR, selector);
+      childStyles.push({ selector: rtlSelector, style: rtlStyle, isUnique });
+    }
+
     // Add new rule to parent.
-    rulesList.push({
-      selector: key,
+    rule = {
+      selector: ruleKey,
       style: parent ? "" : style,
       rules: childRules,
       styles: childStyles,
-    });
+    };
+
+    rulesList.push(rule);
+    if (ruleKey !== key) context.flattened!.add(rule);
   } else {
     selector = parent ? (key ? child(key, parent) : parent) : key;
 
     if (style) {
       stylesList.push({ selector, style, isUnique });
     }
+
+    if (selector && rtlStyle) {
+      const rtlSelector = interpolate(RTL_SELECTOR, selector);
+      stylesList.push({ selector: rtlSelector, style: rtlStyle, isUnique });
+    }
   }
 
-  for (const [name, value] of nestedStyles) {
-    pid += `|${name}#${stylize(
-      childRules,
-      childStyles,
-      name,
-      value,
-      selector,
-    )}`;
+  for (const [key, value] of nestedStyles) {
+    const names = pipe([key], plugins, (plugin, name) =>
+      name.charCodeAt(0) === 64 /* @ */
+        ? plugin.rule?.(name)
+        : plugin.selector?.(name),
+    );
+    const styles = names.length > 1 ? { ...value, $unique: true } : value;
+    const nestedContext = validate
+      ? { ...childContext, path: [...context.path, key] }
+      : childContext;
+
+    for (const name of names) {
+      stylize(
+        childRules,
+        childStyles,
+        name,
+        name.charCodeAt(0) === 64 /* @ */ ? value : styles,
+        selector,
+        nestedContext,
+      );
+    }
   }
 
-  return pid;
+  if (context.flattened && rule) {
+    context.flatten!.unnest(rulesList, rule, context.flattened);
+  }
 }
 
+/**
+ * Match cascade layer block rules.
+ */
+const LAYER_RE = /^@layer\s/;
+
 /**
  * Transform `stylize` tree into style objects.
  */
-function compose(
-  cache: Cache<Rule | Style>,
+function build(
+  containers: Array<Rule | Style>,
   rulesList: CompiledRule[],
   stylesList: CompiledStyle[],
   id: string,
@@ -250,17 +620,20 @@ function compose(
 ) {
   for (const { selector, style, isUnique } of stylesList) {
     const key = interpolate(selector, name);
-    const item = new Style(style, isUnique ? String(++uniqueId) : id);
+    const item = new Style(style, isUnique ? `${id}|${selector}` : id);
     item.add(new Selector(key));
-    cache.add(item);
+    containers.push(item);
   }
 
   for (const { selector, style, rules, styles } of rulesList) {
     const key = interpolate(selector, name);
-    const item = new Rule(key, style, id);
-    compose(item, rules, styles, id, name);
-    cache.add(item);
+    // Share layer blocks between styles so each layer merges into one block.
+    const item = new Rule(key, style, LAYER_RE.test(key) ? "" : id);
+    for (const x of build([], rules, styles, id, name)) item.add(x);
+    containers.push(item);
   }
+
+  return containers;
 }
 
 /**
@@ -300,19 +673,31 @@ export class Cache<T extends Container<any>> {
   protected sheet: string[] = [];
   protected children: T[] = [];
   protected counters = new Map<string, number>();
+  /** Restored references, taken over by the following `add` calls. */
+  protected restored?: Map<string, number>;
 
   constructor(public changes?: Changes) {}
 
-  add(style: T): void {
+  /**
+   * Add a reference to the container, new containers are inserted at `index`
+   * (e.g. when replaying changes) or the default position.
+   */
+  add(style: T, index?: number): void {
     const id = style.cid();
     const count = this.counters.get(id) ?? 0;
+    const restored = this.restored?.get(id);
 
-    this.counters.set(id, count + 1);
+    if (restored) {
+      this.restored!.set(id, restored - 1);
+    } else {
+      this.counters.set(id, count + 1);
+    }
 
     if (count === 0) {
       const item = style.clone();
-      const index = this.children.push(item);
-      this.sheet.push(item.getStyles());
+      if (index === undefined) index = this.position(item);
+      this.children.splice(index, 0, item);
+      this.sheet.splice(index, 0, item.getStyles());
       this.changeId++;
       if (this.changes) this.changes.add(item, index);
     } else if (style instanceof Cache) {
@@ -340,15 +725,20 @@ export class Cache<T extends Container<any>> {
       if (count === 1) {
         const item = this.children[index];
         this.counters.delete(id);
+        this.restored?.delete(id);
         this.children.splice(index, 1);
         this.sheet.splice(index, 1);
         this.changeId++;
         if (this.changes) this.changes.remove(item, index);
-      } else if (style instanceof Cache) {
+        return;
+      }
+
+      this.counters.set(id, count - 1);
+
+      if (style instanceof Cache) {
         const item = this.children[index] as T & Cache<any>;
         const prevChangeId = item.changeId;
 
-        this.counters.set(id, count - 1);
         item.unmerge(style);
 
         if (item.changeId !== prevChangeId) {
@@ -360,6 +750,65 @@ export class Cache<T extends Container<any>> {
     }
   }
 
+  /**
+   * List the current containers, in the same order as the output styles.
+   */
+  values(): readonly T[] {
+    return this.children;
+  }
+
+  /**
+   * Get the number of references to a container id.
+   */
+  count(id: string): number {
+    return this.counters.get(id) ?? 0;
+  }
+
+  /**
+   * Restore containers with reference counts without emitting changes. The
+   * restored references are taken over by `add`, so containers added again are
+   * removed by the matching `remove` calls.
+   */
+  restore(entries: Array<[T, number]>) {
+    const restored = (this.restored ??= new Map());
+
+    for (const [item, count] of entries) {
+      const id = item.cid();
+      const prevCount = this.counters.get(id) ?? 0;
+
+      this.counters.set(id, prevCount + count);
+      restored.set(id, (restored.get(id) ?? 0) + count);
+
+      if (prevCount === 0) {
+        const index = this.position(item);
+        this.children.splice(index, 0, item);
+        this.sheet.splice(index, 0, item.getStyles());
+        this.changeId++;
+      } else if (item instanceof Cache) {
+        const index = this.children.findIndex((x) => x.cid() === id);
+        const prev = this.children[index] as T & Cache<any>;
+
+        prev.restore(
+          item
+            .values()
+            .map((x): [Container<any>, number] => [x, item.count(x.cid())]),
+        );
+
+        this.sheet[index] = prev.getStyles();
+        this.changeId++;
+      }
+    }
+
+    return this;
+  }
+
+  /**
+   * Get the index to insert a new container, defaults to the end.
+   */
+  protected position(style: T): number {
+    return this.children.length;
+  }
+
   merge(cache: Cache<any>) {
     for (const item of cache.children) this.add(item);
     return this;
@@ -386,7 +835,7 @@ export class Selector implements Container<Selector> {
   }
 
   clone(): Selector {
-    return this;
+    return new Selector(this.selector);
   }
 }
 
@@ -439,57 +888,293 @@ export class Rule extends Cache<Rule | Style> implements Container<Rule> {
   }
 }
 
+/**
+ * Declares the cascade layer order using the `@layer` statement.
+ */
+export class LayerStatement implements Container<LayerStatement> {
+  constructor(public layers: string[]) {}
+
+  cid() {
+    return `@layer ${this.layers.join(",")}`;
+  }
+
+  getStyles() {
+    return `@layer ${this.layers.join(",")};`;
+  }
+
+  clone(): LayerStatement {
+    return new LayerStatement(this.layers);
+  }
+}
+
 /**
  * The FreeStyle class implements the API for everything else.
  */
-export class Sheet extends Cache<Rule | Style> {
+export class Sheet extends Cache<Rule | Style | LayerStatement> {
+  protected registered = new Map<string, Compiled>();
+  protected references = new Map<string, number>();
+  protected pids = new Map<string, string>();
+
   constructor(
     public prefix: string,
     changes?: Changes,
+    public options: SheetOptions = {},
   ) {
     super(changes);
+
+    // Declare the layer order before any styles are added.
+    if (options.layers?.length) this.add(new LayerStatement(options.layers));
   }
 
-  register(compiled: Compiled) {
-    const className = `${this.prefix}${compiled.id}`;
+  register(compiled: Compiled): string {
+    if (compiled.atoms) {
+      const name = compiled.atoms.map((x) => this.register(x)).join(" ");
+      this.retain(name, compiled);
+      return name;
+    }
 
-    if (process.env.NODE_ENV !== "production" && compiled.displayName) {
-      const name = `${compiled.displayName}_${className}`;
-      compose(this, compiled.rules, compiled.styles, compiled.id, escape(name));
+    compiled = this.detectCollision(compiled);
+    const name = this.name(compiled);
+    for (const item of this.containers(compiled, name)) this.add(item);
+    this.retain(name, compiled);
+    return name;
+  }
+
+  /**
+   * Remove a reference to each container added by `register`, the styles are
+   * removed when nothing else references them.
+   */
+  unregister(compiled: Compiled): string {
+    if (compiled.atoms) {
+      const name = compiled.atoms.map((x) => this.unregister(x)).join(" ");
+      this.release(name);
       return name;
     }
 
-    compose(this, compiled.rules, compiled.styles, compiled.id, className);
-    return className;
+    compiled = this.detectCollision(compiled);
+    const name = this.name(compiled);
+    this.release(name);
+    for (const item of this.containers(compiled, name)) this.remove(item);
+    return name;
   }
 
-  registerStyle(styles: Styles) {
-    return this.register(compile(styles));
+  registerStyle<T extends object>(styles: T & ExtendStyles<T>) {
+    const [$extend, input] = extension(styles);
+
+    // Resolve class names returned by `register` to extend.
+    if (typeof $extend === "string" || Array.isArray($extend)) {
+      const extend = (Array.isArray($extend) ? $extend : [$extend]).map((x) => {
+        if (typeof x !== "string") return x;
+        const compiled = this.registered.get(x);
+        if (!compiled)
+          throw new TypeError(`Unable to extend "${x}", it is not registered`);
+        return compiled;
+      });
+
+      return this.register(
+        compile({ ...input, $extend: extend }, this.options),
+      );
+    }
+
+    return this.register(compile(styles, this.options));
+  }
+
+  /**
+   * Add a reference to the compiled styles for the class name.
+   */
+  protected retain(name: string, compiled: Compiled) {
+    this.registered.set(name, compiled);
+    this.references.set(name, (this.references.get(name) ?? 0) + 1);
+  }
+
+  /**
+   * Remove a reference to the class name, forgetting the compiled styles when
+   * nothing else references them.
+   */
+  protected release(name: string) {
+    const count = this.references.get(name);
+    if (!count) return;
+
+    if (count > 1) {
+      this.references.set(name, count - 1);
+    } else {
+      this.references.delete(name);
+      this.registered.delete(name);
+    }
   }
 
   getStyles(): string {
     return join(this.sheet);
   }
+
+  /**
+   * List class names returned by `register` with the compiled styles.
+   */
+  classNames(): ReadonlyMap<string, Compiled> {
+    return this.registered;
+  }
+
+  /**
+   * Insert before the first container sorted after it when `order` is set.
+   */
+  protected position(style: Rule | Style | LayerStatement): number {
+    const { order } = this.options;
+    if (!order) return super.position(style);
+
+    const index = this.children.findIndex((x) => order(x, style) > 0);
+
+    return index === -1 ? this.children.length : index;
+  }
+
+  /**
+   * Detect different styles with the same hash in development, throwing an
+   * error or generating a new hash based on the `collisions` option.
+   */
+  protected detectCollision(compiled: Compiled): Compiled {
+    if (process.env.NODE_ENV === "production" || compiled.pid === undefined) {
+      return compiled;
+    }
+
+    const { pid } = compiled;
+    let { id } = compiled;
+    let prevPid = this.pids.get(id);
+
+    while (prevPid !== undefined && prevPid !== pid) {
+      if (this.options.collisions !== "rehash") {
+        throw new TypeError(
+          `Hash collision for "${id}" between "${prevPid}" and "${pid}"`,
+        );
+      }
+
+      id = getHash(this.options)(`${id}|${pid}`);
+      prevPid = this.pids.get(id);
+    }
+
+    this.pids.set(id, pid);
+    return id === compiled.id ? compiled : { ...compiled, id };
+  }
+
+  /**
+   * Generate the class name for compiled styles in this sheet.
+   */
+  protected name(compiled: Compiled) {
+    const className = `${this.prefix}${compiled.id}`;
+
+    if (process.env.NODE_ENV !== "production" && compiled.displayName) {
+      return `${compiled.displayName}_${className}`;
+    }
+
+    return className;
+  }
+
+  /**
+   * Create the containers for compiled styles using the class name.
+   */
+  protected containers(compiled: Compiled, name: string) {
+    return build(
+      [],
+      compiled.rules,
+      compiled.styles,
+      compiled.id,
+      escape(name),
+    );
+  }
 }
 
 /**
  * Exports a simple function to create a new instance.
  */
-export function create(changes?: Changes, prefix = "") {
-  return new Sheet(prefix, changes);
+export function create(changes?: Changes, prefix = "", options?: SheetOptions) {
+  return new Sheet(prefix, changes, options);
 }
 
 /**
- * Compile styles into a registerable object.
+ * Compile styles using the parent selector pattern.
  */
-export function compile(styles: Styles): Compiled {
+function compileStyles(
+  styles: Styles,
+  options: CompileOptions,
+  parent: string,
+  displayName = styles.$displayName,
+): Compiled {
+  const { plugins = [], rtl, flatten, optimize } = options;
   const ruleList: CompiledRule[] = [];
   const styleList: CompiledStyle[] = [];
-  const pid = stylize(ruleList, styleList, "", styles, ".&");
+  const validate =
+    process.env.NODE_ENV === "production" ? undefined : options.validate;
+  const context = {
+    plugins,
+    rtl,
+    validate,
+    displayName,
+    path: [],
+    flatten,
+    flattened: flatten ? new Set<CompiledRule>() : undefined,
+    unit: getUnit(options),
+    optimize,
+  };
+  stylize(ruleList, styleList, "", styles, parent, context);
+  const pid = getPid(styleList, ruleList, options);
   return {
-    id: stringHash(pid),
+    id: getHash(options)(pid),
     rules: ruleList,
     styles: styleList,
     displayName: styles.$displayName,
+    pid,
+  };
+}
+
+/**
+ * Split `$extend` from the styles.
+ */
+function extension(styles: object): [Extend | undefined, Styles] {
+  const { $extend, ...rest } = styles as { $extend?: Extend };
+  return $extend == null ? [undefined, styles as Styles] : [$extend, rest];
+}
+
+/**
+ * Compile styles into a registerable object.
+ */
+export function compile<T extends object>(
+  styles: T & ExtendStyles<T>,
+  options: CompileOptions = {},
+): Compiled {
+  const [$extend, input] = extension(styles);
+
+  if ($extend != null) {
+    if (!options.extend) {
+      throw new TypeError('Unable to use "$extend" without an "extend" option');
+    }
+    const extend = (Array.isArray($extend) ? $extend : [$extend]).map((x) => {
+      if (typeof x === "string") {
+        throw new TypeError(`Unable to extend "${x}" outside of a sheet`);
+      }
+      return x;
+    });
+    return options.extend([...extend, compile(input, options)], options);
+  }
+
+  if (!options.atomic || input.$global) {
+    return compileStyles(input, options, ".&");
+  }
+
+  const atoms = options.atomic(input, (styles, specificity) =>
+    compileStyles(
+      styles,
+      options,
+      ".&".repeat(specificity + 1),
+      input.$displayName,
+    ),
+  );
+
+  const pid = atoms.map((x) => x.id).join(" ");
+
+  return {
+    id: getHash(options)(pid),
+    rules: [],
+    styles: [],
+    displayName: input.$displayName,
+    pid,
+    atoms,
   };
 }
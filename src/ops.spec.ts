@@ -0,0 +1,131 @@
+import { describe, it, expect } from "vitest";
+import { create } from "./index.js";
+import type { Changes, Container } from "./index.js";
+import { applyOps, record } from "./ops.js";
+import type { Op } from "./ops.js";
+import { mediaOrder } from "./order.js";
+
+/**
+ * Collect ops as they would arrive from `postMessage`.
+ */
+function collect(ops: Op[]) {
+  return (op: Op) => ops.push(JSON.parse(JSON.stringify(op)));
+}
+
+/**
+ * Mirror the styles and container ids, similar to a DOM `Renderer`.
+ */
+function mirror() {
+  const styles: string[] = [];
+  const ids: string[] = [];
+  const changes: Changes = {
+    add: (style: Container<any>, index: number) => {
+      styles.splice(index, 0, style.getStyles());
+      ids.splice(index, 0, style.cid());
+    },
+    change: (style: Container<any>, index: number) => {
+      styles.splice(index, 1, style.getStyles());
+    },
+    remove: (_: Container<any>, index: number) => {
+      styles.splice(index, 1);
+      ids.splice(index, 1);
+    },
+  };
+
+  return { styles, ids, changes };
+}
+
+describe("ops", () => {
+  it("should replay ops onto changes from another sheet", () => {
+    const source = create(undefined, "", { order: mediaOrder() });
+    const target = mirror();
+    const ops: Op[] = [];
+
+    source.registerStyle({ color: "red" });
+    record(source, collect(ops));
+
+    const a = source.registerStyle({
+      background: "red",
+      "@media (min-width: 400px)": { background: "yellow" },
+    });
+
+    source.registerStyle({
+      color: "blue",
+      "@media (min-width: 200px)": { color: "green" },
+      "@media (min-width: 400px)": { color: "pink" },
+    });
+
+    source.registerStyle({ $displayName: "Other", background: "red" });
+    source.unregister(source.classNames().get(a)!);
+
+    applyOps(target.changes, ops);
+
+    expect(target.styles.join("")).toEqual(source.getStyles());
+    expect(target.ids).toEqual(source.values().map((x) => x.cid()));
+  });
+
+  it("should replay ops onto a mirror sheet", () => {
+    const source = create(undefined, "", { order: mediaOrder() });
+    const target = create();
+    const ops: Op[] = [];
+
+    source.registerStyle({ color: "red" });
+    record(source, collect(ops));
+
+    const a = source.registerStyle({
+      background: "red",
+      "@media (min-width: 400px)": { background: "yellow" },
+    });
+
+    source.registerStyle({
+      color: "blue",
+      "@media (min-width: 200px)": { color: "green" },
+      "@media (min-width: 400px)": { color: "pink" },
+    });
+
+    source.registerStyle({ $displayName: "Other", background: "red" });
+    source.unregister(source.classNames().get(a)!);
+
+    applyOps(target, ops);
+
+    expect(target.getStyles()).toEqual(source.getStyles());
+    expect(target.values().map((x) => x.cid())).toEqual(
+      source.values().map((x) => x.cid()),
+    );
+  });
+
+  it("should emit nested ops with the parent path", () => {
+    const sheet = create();
+    const ops: Op[] = [];
+
+    sheet.registerStyle({ "@media print": { color: "red" } });
+    record(sheet, collect(ops));
+    sheet.registerStyle({
+      $displayName: "Print",
+      "@media print": { color: "red" },
+    });
+
+    const [rule] = sheet.values();
+
+    expect(ops.map((x) => [x.type, x.index, x.path])).toEqual([
+      ["add", 0, []],
+      ["change", 0, [rule.cid()]],
+      ["change", 0, []],
+    ]);
+    expect(ops[2]).toHaveProperty("css", rule.getStyles());
+  });
+
+  it("should replay ops onto changes", () => {
+    const { styles, changes } = mirror();
+
+    applyOps(changes, [
+      { type: "add", cid: "a", css: ".a{color:red}", index: 0, path: [] },
+      { type: "add", cid: "b", css: ".b{color:blue}", index: 0, path: [] },
+      { type: "change", cid: "a", css: ".a,.c{color:red}", index: 1, path: [] },
+      { type: "add", cid: "d", css: ".d{}", index: 0, path: ["b"] },
+      { type: "remove", cid: "b", index: 0, path: [] },
+    ]);
+
+    expect(styles).toEqual([".a,.c{color:red}"]);
+  });
+});
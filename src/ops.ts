@@ -0,0 +1,121 @@
+import { Cache, Rule } from "./index.js";
+import type { Changes, Container } from "./index.js";
+
+/**
+ * JSON-safe change event, e.g. to post from a worker to the main thread. The
+ * `path` lists the `cid` of each parent rule, empty for top-level containers.
+ */
+export type Op =
+  | {
+      type: "add" | "change";
+      cid: string;
+      css: string;
+      index: number;
+      path: string[];
+    }
+  | { type: "remove"; cid: string; index: number; path: string[] };
+
+/**
+ * Container replayed from an op, only the `cid` and rendered CSS are known.
+ */
+class Raw implements Container<Raw> {
+  constructor(
+    public id: string,
+    public css: string,
+  ) {}
+
+  cid() {
+    return this.id;
+  }
+
+  getStyles() {
+    return this.css;
+  }
+
+  clone(): Raw {
+    return new Raw(this.id, this.css);
+  }
+}
+
+/**
+ * Emit `Changes` events as ops. Nested rule changes are emitted with the
+ * parent `path`, followed by a `change` op for the top-level container.
+ */
+export class Recorder implements Changes {
+  constructor(
+    public emit: (op: Op) => void,
+    public path: string[] = [],
+  ) {}
+
+  add(style: Container<any>, index: number) {
+    this.emit({
+      type: "add",
+      cid: style.cid(),
+      css: style.getStyles(),
+      index,
+      path: this.path,
+    });
+    this.observe(style);
+  }
+
+  change(style: Container<any>, index: number) {
+    this.emit({
+      type: "change",
+      cid: style.cid(),
+      css: style.getStyles(),
+      index,
+      path: this.path,
+    });
+  }
+
+  remove(style: Container<any>, index: number) {
+    if (style instanceof Rule) style.changes = undefined;
+
+    this.emit({ type: "remove", cid: style.cid(), index, path: this.path });
+  }
+
+  /**
+   * Record nested rule changes with the rule `cid` in the path.
+   */
+  protected observe(style: Container<any>) {
+    if (!(style instanceof Rule)) return;
+
+    const recorder = new Recorder(this.emit, [...this.path, style.cid()]);
+    style.changes = recorder;
+    style.values().forEach((x) => recorder.observe(x));
+  }
+}
+
+/**
+ * Emit the current styles as `add` ops and keep emitting ops for changes.
+ * This replaces any existing `changes` handler on the cache.
+ */
+export function record(cache: Cache<any>, emit: (op: Op) => void): Recorder {
+  const recorder = new Recorder(emit);
+  cache.values().forEach((x, i) => recorder.add(x, i));
+  cache.changes = recorder;
+  return recorder;
+}
+
+/**
+ * Replay ops onto a `Changes` handler (e.g. a DOM `Renderer`) or a mirror
+ * cache (e.g. an empty `Sheet`), which outputs the same styles as the recorded
+ * cache. Nested ops are skipped, the following top-level `change` op includes
+ * their CSS.
+ */
+export function applyOps(target: Cache<any> | Changes, ops: Iterable<Op>) {
+  for (const op of ops) {
+    if (op.path.length) continue;
+
+    const item = new Raw(op.cid, op.type === "remove" ? "" : op.css);
+
+    if (!(target instanceof Cache)) {
+      target[op.type](item, op.index);
+      continue;
+    }
+
+    // Replace changed containers, the CSS is the only thing known to change.
+    if (op.type !== "add") target.remove(item);
+    if (op.type !== "remove") target.add(item, op.index);
+  }
+}
@@ -0,0 +1,114 @@
+import { describe, it, expect } from "vitest";
+import { compile, create } from "./index.js";
+import { optimizer } from "./optimize.js";
+
+describe("optimize", () => {
+  it("should remove overridden declarations", () => {
+    const sheet = create(undefined, "", { optimize: optimizer() });
+
+    const className = sheet.registerStyle({
+      marginTop: 10,
+      "margin-top": 20,
+      borderTopColor: "red",
+      borderRadius: 5,
+      border: "1px solid blue",
+      paddingLeft: "1px !important",
+      padding: 0,
+    });
+
+    expect(sheet.getStyles()).toEqual(
+      `.${className}{margin-top:20px;border-radius:5px;border:1px solid blue;padding-left:1px !important;padding:0}`,
+    );
+  });
+
+  it("should keep array fallbacks", () => {
+    const sheet = create(undefined, "", { optimize: optimizer() });
+
+    const className = sheet.registerStyle({
+      display: ["-webkit-box", "flex"],
+      background: ["#FF0000", "rgba(255, 0, 0, 0.5)"],
+    });
+
+    expect(sheet.getStyles()).toEqual(
+      `.${className}{display:-webkit-box;display:flex;background:#f00;background:rgba(255, 0, 0, 0.5)}`,
+    );
+  });
+
+  it("should collapse box longhands", () => {
+    const sheet = create(undefined, "", { optimize: optimizer() });
+
+    const className1 = sheet.registerStyle({
+      margin: 5,
+      marginTop: 0,
+      marginRight: "10px",
+      marginBottom: "0px",
+      marginLeft: 10,
+    });
+
+    const className2 = sheet.registerStyle({
+      paddingTop: 1,
+      paddingRight: 2,
+      paddingBottom: 3,
+      paddingLeft: 4,
+    });
+
+    expect(sheet.getStyles()).toEqual(
+      `.${className1}{margin:0 10px}.${className2}{padding:1px 2px 3px 4px}`,
+    );
+  });
+
+  it("should not collapse with related properties in between", () => {
+    const sheet = create(undefined, "", { optimize: optimizer() });
+
+    const className = sheet.registerStyle({
+      marginTop: 0,
+      marginRight: 0,
+      marginInlineEnd: 5,
+      marginBottom: 0,
+      marginLeft: 0,
+    });
+
+    expect(sheet.getStyles()).toEqual(
+      `.${className}{margin-top:0;margin-right:0;margin-inline-end:5px;margin-bottom:0;margin-left:0}`,
+    );
+  });
+
+  it("should shorten values", () => {
+    const sheet = create(undefined, "", { optimize: optimizer() });
+
+    const className = sheet.registerStyle({
+      margin: "0px auto",
+      width: "calc(100% - 0px)",
+      transition: "color 0s",
+      color: "#AABBCC",
+      borderColor: "#11223344 #abcdef",
+      background: 'url(#aabbcc) "#ffffff"',
+      "--offset": "0px",
+    });
+
+    expect(sheet.getStyles()).toEqual(
+      `.${className}{margin:0 auto;width:calc(100% - 0px);transition:color 0s;color:#abc;` +
+        `border-color:#1234 #abcdef;background:url(#aabbcc) "#ffffff";--offset:0px}`,
+    );
+  });
+
+  it("should keep units on zero flex basis", () => {
+    const sheet = create(undefined, "", { optimize: optimizer() });
+
+    const className = sheet.registerStyle({
+      flex: "1 0px",
+      WebkitFlex: "1 0px",
+      flexBasis: "0px",
+    });
+
+    expect(sheet.getStyles()).toEqual(
+      `.${className}{flex:1 0px;-webkit-flex:1 0px;flex-basis:0}`,
+    );
+  });
+
+  it("should hash optimized styles", () => {
+    expect(
+      compile({ margin: "0px", color: "#FFF" }, { optimize: optimizer() }),
+    ).toEqual(compile({ margin: 0, color: "#fff" }));
+  });
+});
@@ -0,0 +1,181 @@
+import type { Optimizer, PropertyValue } from "./index.js";
+import { LONGHANDS } from "./shorthands.js";
+
+/**
+ * Property names and values, in the order they were written.
+ */
+type Declarations = Array<[string, PropertyValue | PropertyValue[]]>;
+
+/**
+ * Format a property value, adding the unit to numbers.
+ */
+type Format = (property: string, value: NonNullable<PropertyValue>) => string;
+
+/**
+ * Check if the shorthand resets the property.
+ */
+function covers(shorthand: string, property: string): boolean {
+  const longhands = LONGHANDS.get(shorthand);
+  return !!longhands?.some((x) => x === property || covers(x, property));
+}
+
+/**
+ * Properties collapsed into a shorthand when every side is set.
+ */
+const BOX_SHORTHANDS = ["margin", "padding"];
+
+/**
+ * Check if a value uses `!important`, it can't be overridden or collapsed.
+ */
+function isImportant(value: PropertyValue | PropertyValue[]) {
+  return String(value).includes("!important");
+}
+
+/**
+ * Collapse the four sides of a box shorthand, e.g. `margin-top` and friends.
+ */
+function collapse(
+  declarations: Declarations,
+  shorthand: string,
+  format: Format,
+) {
+  const longhands = LONGHANDS.get(shorthand)!;
+  const indexes = longhands.map((x) =>
+    declarations.findIndex(([name]) => name === x),
+  );
+
+  if (indexes.includes(-1)) return declarations;
+
+  const values = indexes.map((i) => declarations[i][1]);
+  if (values.some((x) => Array.isArray(x) || isImportant(x)))
+    return declarations;
+
+  // Related properties between the sides would change the cascade.
+  const start = Math.min(...indexes);
+  const end = Math.max(...indexes);
+  const isRelated = declarations.some(
+    ([name], i) =>
+      i > start &&
+      i < end &&
+      !indexes.includes(i) &&
+      name.startsWith(shorthand),
+  );
+
+  if (isRelated) return declarations;
+
+  const [top, right, bottom, left] = values.map((value, i) =>
+    minify(
+      format(longhands[i], value as NonNullable<PropertyValue>),
+      longhands[i],
+    ),
+  );
+  const parts = [top, right, bottom, left];
+
+  if (left === right) {
+    parts.pop();
+    if (bottom === top) {
+      parts.pop();
+      if (right === top) parts.pop();
+    }
+  }
+
+  return declarations.flatMap((declaration, i): typeof declarations => {
+    if (i === end) return [[shorthand, parts.join(" ")]];
+    return indexes.includes(i) ? [] : [declaration];
+  });
+}
+
+/**
+ * Collapse box properties and remove declarations overridden by a later
+ * declaration. Array values are kept as written for fallbacks.
+ */
+function optimize(declarations: Declarations, format: Format) {
+  for (const shorthand of BOX_SHORTHANDS) {
+    declarations = collapse(declarations, shorthand, format);
+  }
+
+  const seen: string[] = [];
+  const result: typeof declarations = [];
+
+  for (let i = declarations.length - 1; i >= 0; i--) {
+    const [name, value] = declarations[i];
+    const isOverridden = seen.some((x) => x === name || covers(x, name));
+
+    if (isOverridden && !isImportant(value)) continue;
+
+    seen.push(name);
+    result.unshift(declarations[i]);
+  }
+
+  return result;
+}
+
+/**
+ * Match value tokens for `minify`: strings, `url()`, functions, hex colors and
+ * zero lengths.
+ */
+const MINIFY_RE =
+  /"(?:\\.|[^"\\])*"|'(?:\\.|[^'\\])*'|url\([^)]*\)|([\w-]*)\(|\)|#([\da-f]{3,8})\b|(?<![\w.#-])0(?:\.0*)?([a-z]+)\b/gi;
+
+/**
+ * Length units that can be removed from zero.
+ */
+const LENGTH_UNITS = new Set(
+  "px em rem ex ch vw vh vmin vmax cm mm q in pt pc".split(" "),
+);
+
+/**
+ * Functions requiring units on zero lengths.
+ */
+const MATH_FUNCTIONS = new Set(["calc", "min", "max", "clamp"]);
+
+/**
+ * Properties where a unit-less zero means something else, e.g. `flex: 1 0` sets
+ * `flex-shrink` instead of `flex-basis`.
+ */
+const ZERO_UNIT_PROPERTIES = new Set(["flex", "-webkit-flex", "-ms-flex"]);
+
+/**
+ * Shorten a value, e.g. `0px` to `0` and `#FFFFFF` to `#fff`.
+ */
+function minify(value: string, property: string) {
+  const isZeroUnit = ZERO_UNIT_PROPERTIES.has(property);
+  const stack: string[] = [];
+
+  return value.replace(
+    MINIFY_RE,
+    (match, fn?: string, hex?: string, unit?: string) => {
+      if (fn !== undefined) {
+        stack.push(fn.toLowerCase());
+        return match;
+      }
+
+      if (match === ")") {
+        stack.pop();
+        return match;
+      }
+
+      if (hex !== undefined) {
+        const color = hex.toLowerCase();
+        if (color.length !== 6 && color.length !== 8) return `#${color}`;
+        if (!/^(?:(.)\1)+$/.test(color)) return `#${color}`;
+        return `#${color.replace(/(.)./g, "$1")}`;
+      }
+
+      if (unit !== undefined && LENGTH_UNITS.has(unit.toLowerCase())) {
+        if (isZeroUnit) return match;
+        return stack.some((x) => MATH_FUNCTIONS.has(x)) ? match : "0";
+      }
+
+      return match;
+    },
+  );
+}
+
+/**
+ * Remove overridden declarations, collapse box longhands and shorten values,
+ * e.g. `0px` to `0` and `#FFFFFF` to `#fff`.
+ */
+export function optimizer(): Optimizer {
+  return { declarations: optimize, value: minify };
+}
@@ -0,0 +1,81 @@
+import { describe, it, expect } from "vitest";
+import { compile, create } from "./index.js";
+import { mediaOrder } from "./order.js";
+
+describe("order", () => {
+  const styles = [
+    { "@media (min-width: 1024px)": { color: "red" } },
+    { "@media print": { color: "black" } },
+    { "@media (max-width: 639px)": { color: "green" } },
+    { "@media (min-width: 40em)": { color: "blue" } },
+    { "@media (max-width: 1023px)": { color: "pink" } },
+    { color: "gray" },
+  ];
+
+  it("should sort mobile-first after base styles", () => {
+    const sheet = create(undefined, "", { order: mediaOrder("mobile-first") });
+    const [a, b, c, d, e, f] = styles.map((x) => sheet.registerStyle(x));
+
+    expect(sheet.getStyles()).toEqual(
+      `.${f}{color:gray}` +
+        `@media (min-width: 40em){.${d}{color:blue}}` +
+        `@media (min-width: 1024px){.${a}{color:red}}` +
+        `@media (max-width: 1023px){.${e}{color:pink}}` +
+        `@media (max-width: 639px){.${c}{color:green}}` +
+        `@media print{.${b}{color:black}}`,
+    );
+  });
+
+  it("should sort desktop-first after base styles", () => {
+    const sheet = create(undefined, "", { order: mediaOrder("desktop-first") });
+    const [a, b, c, d, e, f] = styles.map((x) => sheet.registerStyle(x));
+
+    expect(sheet.getStyles()).toEqual(
+      `.${f}{color:gray}` +
+        `@media (max-width: 1023px){.${e}{color:pink}}` +
+        `@media (max-width: 639px){.${c}{color:green}}` +
+        `@media (min-width: 40em){.${d}{color:blue}}` +
+        `@media (min-width: 1024px){.${a}{color:red}}` +
+        `@media print{.${b}{color:black}}`,
+    );
+  });
+
+  it("should support range syntax", () => {
+    const sheet = create(undefined, "", { order: mediaOrder("mobile-first") });
+
+    const a = sheet.registerStyle({ "@media (width >= 800px)": { top: 0 } });
+    const b = sheet.registerStyle({ "@media (width >= 400px)": { top: 0 } });
+
+    expect(sheet.getStyles()).toEqual(
+      `@media (width >= 400px){.${b}{top:0}}` +
+        `@media (width >= 800px){.${a}{top:0}}`,
+    );
+  });
+
+  it("should emit sorted insertion indexes", () => {
+    const result: string[] = [];
+
+    const sheet = create(
+      {
+        add(style, index) {
+          result.splice(index, 0, style.getStyles());
+        },
+        change(style, index) {
+          result[index] = style.getStyles();
+        },
+        remove(style, index) {
+          result.splice(index, 1);
+        },
+      },
+      "",
+      { order: mediaOrder("mobile-first") },
+    );
+
+    for (const x of styles) sheet.registerStyle(x);
+    expect(result.join("")).toEqual(sheet.getStyles());
+
+    sheet.unregister(compile(styles[3]));
+    sheet.registerStyle({ "@media (min-width: 1024px)": { color: "blue" } });
+    expect(result.join("")).toEqual(sheet.getStyles());
+  });
+});
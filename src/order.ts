@@ -0,0 +1,46 @@
+import { Rule } from "./index.js";
+import type { LayerStatement, Style } from "./index.js";
+
+/**
+ * Match the first width feature in a media query, e.g. `(min-width: 40em)`.
+ */
+const WIDTH_RE =
+  /\(\s*(?:(min|max)-width\s*:|width\s*([<>])=?)\s*([\d.]+)(px|r?em)?\s*\)/;
+
+/**
+ * Get the sort key for a container, base styles first, then `@media` rules
+ * by breakpoint and `@media` rules without a width last.
+ */
+function breakpoint(
+  style: Rule | Style | LayerStatement,
+  order: "mobile-first" | "desktop-first",
+): [number, number] {
+  if (!(style instanceof Rule) || !/^@media\b/.test(style.rule)) return [0, 0];
+
+  const match = WIDTH_RE.exec(style.rule);
+  if (!match) return [3, 0];
+
+  const [, feature, operator, value, unit = "px"] = match;
+  const width = Number(value) * (unit === "px" ? 1 : 16);
+  const isMin = feature ? feature === "min" : operator === ">";
+  const isFirst = order === "mobile-first" ? isMin : !isMin;
+  return [isFirst ? 1 : 2, isMin ? width : -width];
+}
+
+/**
+ * Sort `@media` rules by breakpoint after the base styles, using ascending
+ * `min-width` then descending `max-width` for `"mobile-first"`, or the reverse
+ * for `"desktop-first"`.
+ */
+export function mediaOrder(
+  order: "mobile-first" | "desktop-first" = "mobile-first",
+) {
+  return (
+    a: Rule | Style | LayerStatement,
+    b: Rule | Style | LayerStatement,
+  ) => {
+    const [groupA, widthA] = breakpoint(a, order);
+    const [groupB, widthB] = breakpoint(b, order);
+    return groupA - groupB || widthA - widthB;
+  };
+}
@@ -0,0 +1,168 @@
+import { describe, it, expect } from "vitest";
+import { create } from "./index.js";
+import type { Styles } from "./index.js";
+import { parse, toStyles } from "./parse.js";
+
+/**
+ * Register the parsed styles in order and return the sheet output.
+ */
+function roundTrip(styles: Styles[]) {
+  const sheet = create();
+  for (const x of styles) sheet.registerStyle(x);
+  return sheet.getStyles();
+}
+
+describe("parse", () => {
+  it("should parse rules into global styles", () => {
+    expect(
+      parse(`
+        /* Buttons. */
+        .button { color: red; background: url("a;b.png") }
+        .button:hover { color: blue }
+        .button:hover .icon { fill: currentColor }
+        .button > .label, .link { font-weight: bold; }
+        .link { color: green }
+      `),
+    ).toEqual([
+      {
+        $global: true,
+        ".button": {
+          color: "red",
+          background: 'url("a;b.png")',
+          "&:hover": {
+            color: "blue",
+            "& .icon": { fill: "currentColor" },
+          },
+        },
+        ".button > .label, .link": { "font-weight": "bold" },
+        ".link": { color: "green" },
+      },
+    ]);
+  });
+
+  it("should parse at-rules as nested keys", () => {
+    expect(
+      parse(`
+        .a { color: red }
+        @media (min-width: 400px) {
+          .a { color: blue }
+          .a:hover { color: green }
+        }
+        @font-face { font-family: A; }
+        @font-face { font-family: B; }
+      `),
+    ).toEqual([
+      {
+        $global: true,
+        ".a": { color: "red" },
+        "@media (min-width: 400px)": {
+          ".a": { color: "blue", "&:hover": { color: "green" } },
+        },
+        "@font-face": { "font-family": "A" },
+      },
+      { $global: true, "@font-face": { "font-family": "B" } },
+    ]);
+  });
+
+  it("should parse repeated properties into arrays", () => {
+    expect(
+      parse(".a { display: -webkit-box; display: flex; display: grid }"),
+    ).toEqual([
+      { $global: true, ".a": { display: ["-webkit-box", "flex", "grid"] } },
+    ]);
+  });
+
+  it("should parse declarations into class styles", () => {
+    expect(
+      parse("COLOR: red; --Size: 10px; &:hover { color: blue } .b { x: y }"),
+    ).toEqual([
+      {
+        color: "red",
+        "--Size": "10px",
+        "&:hover": { color: "blue" },
+        ".b": { x: "y" },
+      },
+    ]);
+  });
+
+  it("should throw when class styles can not keep the order", () => {
+    expect(() =>
+      parse("color: red; @media print { color: blue } &:hover { color: red }"),
+    ).toThrow(TypeError);
+    expect(() => parse("color: red; .a { color: red }")).toThrow(TypeError);
+  });
+
+  it("should throw on invalid css", () => {
+    expect(() => parse(".a { color: red } }")).toThrow(TypeError);
+    expect(() => parse(".a { color }")).toThrow(TypeError);
+  });
+
+  it("should skip statements with a warning", () => {
+    const css = '@charset "utf-8"; @import "a.css"; @layer a, b; .a { x: y }';
+    const warnings: string[] = [];
+
+    expect(
+      parse(css, { onWarning: (message) => warnings.push(message) }),
+    ).toEqual([{ $global: true, ".a": { x: "y" } }]);
+    expect(warnings).toEqual([
+      'Skipped "@charset "utf-8"", statements are not supported',
+      'Skipped "@import "a.css"", statements are not supported',
+      'Skipped "@layer a, b", statements are not supported',
+    ]);
+    expect(() => parse(css)).toThrow(TypeError);
+  });
+
+  it("should keep identical rules apart", () => {
+    const css = ".a{color:red}.b{color:blue}.c{color:red}";
+
+    expect(parse(css)).toHaveLength(2);
+    expect(roundTrip(parse(css))).toEqual(css);
+  });
+
+  it("should keep rules interleaved with at-rules in order", () => {
+    const css = [
+      ".a{color:red}",
+      "@media print{.a{color:blue}}",
+      ".b{color:green}",
+      ".a{color:red}",
+      "@media print{.b{color:pink}@supports (display: grid){.b{display:grid}}.c{color:red}}",
+    ].join("");
+
+    expect(roundTrip(parse(css))).toEqual(
+      css.replace(".c{color:red}}", "}@media print{.c{color:red}}"),
+    );
+  });
+
+  it("should round trip through compile", () => {
+    const css = [
+      '.button{color:red;background:url("a;b.png")}',
+      ".button:hover{color:blue}",
+      ".button:hover .icon{fill:currentColor}",
+      ".link{display:-webkit-box;display:flex}",
+      ".sm\\:flex{display:flex}",
+      "@media (min-width: 400px){.button{color:green}}",
+      "@font-face{font-family:A}",
+      "@font-face{font-family:B}",
+    ].join("");
+
+    expect(roundTrip(parse(css))).toEqual(css);
+  });
+
+  it("should transform a sheet into styles", () => {
+    const sheet = create();
+    const className = sheet.registerStyle({
+      color: "red",
+      "&:hover": { color: "blue" },
+      "@media print": { display: "none" },
+    });
+
+    expect(toStyles(sheet)).toEqual([
+      {
+        $global: true,
+        [`.${className}`]: { color: "red", "&:hover": { color: "blue" } },
+        "@media print": { [`.${className}`]: { display: "none" } },
+      },
+    ]);
+    expect(roundTrip(toStyles(sheet))).toEqual(sheet.getStyles());
+  });
+});
@@ -0,0 +1,335 @@
+import type { Sheet, Styles } from "./index.js";
+
+/**
+ * Options for `parse`.
+ */
+export interface ParseOptions {
+  /** Receives skipped statements (e.g. `@import`), throws when missing. */
+  onWarning?: (message: string) => void;
+}
+
+/**
+ * Parsed CSS block item, a declaration or a nested block.
+ */
+type Item = [key: string, value: string | Item[]];
+
+/**
+ * Declarations with the nested selectors and `@`-rules leading to them.
+ */
+type Leaf = [path: string[], properties: Styles];
+
+/**
+ * Output container in a segment, the sheet or an `@`-rule. Identical styles
+ * merge and styles are output before rules, so both would change the order.
+ */
+interface Container {
+  styles: Set<string>;
+  rules: Set<string>;
+  last?: string;
+}
+
+/**
+ * Styles registered together, with the output containers by `@`-rule path.
+ */
+interface Segment {
+  styles: Styles;
+  containers: Map<string, Container>;
+}
+
+/**
+ * Characters that can follow a selector to form a more specific selector,
+ * e.g. `.button` and `.button:hover`.
+ */
+const COMBINE_RE = /^[\s:.#[>+~]/;
+
+/**
+ * Remove comments outside of strings.
+ */
+function stripComments(css: string) {
+  let result = "";
+  let start = 0;
+
+  for (let i = 0; i < css.length; i++) {
+    const char = css[i];
+
+    if (char === '"' || char === "'") {
+      for (i++; i < css.length && css[i] !== char; i++) {
+        if (css[i] === "\\") i++;
+      }
+    } else if (char === "/" && css[i + 1] === "*") {
+      const end = css.indexOf("*/", i + 2);
+      result += css.slice(start, i);
+      i = end === -1 ? css.length : end + 1;
+      start = i + 1;
+    }
+  }
+
+  return result + css.slice(start);
+}
+
+/**
+ * Parse the contents of a block until the closing `}`, returning the items
+ * and the index of the closing brace. Statements (e.g. `@import`) can't be
+ * represented as styles and are passed to `warn`.
+ */
+function parseBlock(
+  css: string,
+  start: number,
+  warn: (message: string) => void,
+): [Item[], number] {
+  const items: Item[] = [];
+  let depth = 0;
+  let i = start;
+
+  const flush = (end: number) => {
+    const text = css.slice(start, end).trim();
+    if (!text) return;
+
+    if (text.charCodeAt(0) === 64 /* @ */) {
+      warn(`Skipped "${text}", statements are not supported`);
+      return;
+    }
+
+    const index = text.indexOf(":");
+    if (index === -1) {
+      throw new TypeError(`Unable to parse "${text}", expected a declaration`);
+    }
+
+    items.push([text.slice(0, index).trim(), text.slice(index + 1).trim()]);
+  };
+
+  for (; i < css.length; i++) {
+    const char = css[i];
+
+    if (char === '"' || char === "'") {
+      for (i++; i < css.length && css[i] !== char; i++) {
+        if (css[i] === "\\") i++;
+      }
+    } else if (char === "\\") {
+      i++;
+    } else if (char === "(" || char === "[") {
+      depth++;
+    } else if (char === ")" || char === "]") {
+      depth--;
+    } else if (depth === 0) {
+      if (char === ";") {
+        flush(i);
+        start = i + 1;
+      } else if (char === "{") {
+        const prelude = css.slice(start, i).trim().replace(/\s+/g, " ");
+        const [children, end] = parseBlock(css, i + 1, warn);
+        items.push([prelude, children]);
+        i = end;
+        start = i + 1;
+      } else if (char === "}") {
+        break;
+      }
+    }
+  }
+
+  flush(i);
+  return [items, i];
+}
+
+/**
+ * Selector nested in the items, with the last nested selector.
+ */
+interface Node {
+  selector: string;
+  items: Item[];
+  last?: Node;
+}
+
+/**
+ * Check the selector extends the parent, e.g. `.button:hover` and `.button`.
+ */
+function isExtending(selector: string, parent: string) {
+  if (selector.includes(",") || parent.includes(",")) return false;
+  if (!selector.startsWith(parent)) return false;
+  return COMBINE_RE.test(selector.slice(parent.length));
+}
+
+/**
+ * Nest selectors extending the previous selector (e.g. `.button:hover` after
+ * `.button`) as `&` items, only the last selector is used so the output order
+ * doesn't change.
+ */
+function nest(items: Item[]): Item[] {
+  const root: Node = { selector: "", items: [] };
+
+  for (const [key, value] of items) {
+    if (typeof value === "string") {
+      root.items.push([key, value]);
+      continue;
+    }
+
+    if (key.charCodeAt(0) === 64 /* @ */ || key.includes("&")) {
+      root.items.push([key, nest(value)]);
+      root.last = undefined;
+      continue;
+    }
+
+    let parent = root;
+    while (parent.last && isExtending(key, parent.last.selector)) {
+      parent = parent.last;
+    }
+
+    const node: Node = { selector: key, items: nest(value) };
+    const selector =
+      parent === root ? key : `&${key.slice(parent.selector.length)}`;
+    parent.items.push([selector, node.items]);
+    parent.last = node;
+  }
+
+  return root.items;
+}
+
+/**
+ * List the declarations of each block in output order, repeated properties
+ * become arrays.
+ */
+function leaves(items: Item[], path: string[], result: Leaf[]): Leaf[] {
+  const properties: Styles = {};
+
+  for (const [key, value] of items) {
+    if (typeof value !== "string") continue;
+
+    const property = key.startsWith("--") ? key : key.toLowerCase();
+    const prev = properties[property];
+    properties[property] =
+      prev === undefined
+        ? value
+        : ([] as string[]).concat(prev as string | string[], value);
+  }
+
+  if (Object.keys(properties).length) result.push([path, properties]);
+
+  for (const [key, value] of items) {
+    if (typeof value !== "string") leaves(value, [...path, key], result);
+  }
+
+  return result;
+}
+
+/**
+ * Get the output container for the `@`-rule path.
+ */
+function container(segment: Segment, rules: string[]): Container {
+  const key = rules.join("\n");
+  let item = segment.containers.get(key);
+  if (!item) {
+    item = { styles: new Set(), rules: new Set() };
+    segment.containers.set(key, item);
+  }
+  return item;
+}
+
+/**
+ * Add the declarations to the segment styles, returns `false` when the output
+ * order would change. Existing keys are only extended when they're the last
+ * key, e.g. the `@media` rule of the previous declarations.
+ */
+function place(
+  segment: Segment,
+  [path, properties]: Leaf,
+  isClass: boolean,
+  apply: boolean,
+): boolean {
+  let styles = segment.styles;
+  let rules: string[] = [];
+  let isStyle = isClass;
+  let isNew = false;
+
+  for (const key of path) {
+    const isRule = key.charCodeAt(0) === 64; /* @ */
+
+    if (!isNew && Object.prototype.hasOwnProperty.call(styles, key)) {
+      const keys = Object.keys(styles);
+      if (keys[keys.length - 1] !== key) return false;
+    } else {
+      isNew = true;
+
+      if (isRule) {
+        const parent = container(segment, rules);
+        if (parent.rules.has(key) && parent.last !== key) return false;
+        if (apply) {
+          parent.rules.add(key);
+          parent.last = key;
+        }
+      }
+
+      if (apply) styles[key] = {};
+    }
+
+    if (!isNew || apply) styles = styles[key] as Styles;
+    if (isRule) rules = [...rules, key];
+    else isStyle = true;
+  }
+
+  // Declarations for an existing block would be output with the first block.
+  if (!isNew && path.length) return false;
+
+  // Global `@`-rule declarations (e.g. `@font-face`) are the rule style.
+  if (isStyle) {
+    const parent = container(segment, rules);
+    const style = JSON.stringify(properties);
+    if (parent.rules.size || parent.styles.has(style)) return false;
+    if (apply) parent.styles.add(style);
+  }
+
+  if (apply) Object.assign(styles, properties);
+  return true;
+}
+
+/**
+ * Parse CSS into a list of styles accepted by `compile`, register them in
+ * order to keep the output order. Top-level rules are returned as `$global`
+ * styles, split where registering them together would merge or move rules.
+ * Top-level declarations (e.g. `color: red; &:hover { color: blue; }`) are
+ * returned as a single class styles.
+ */
+export function parse(css: string, options: ParseOptions = {}): Styles[] {
+  const {
+    onWarning = (message: string) => {
+      throw new TypeError(message);
+    },
+  } = options;
+  const source = stripComments(css);
+  const [items, end] = parseBlock(source, 0, onWarning);
+
+  if (end < source.length) {
+    throw new TypeError(`Unable to parse CSS, unexpected "}" at ${end}`);
+  }
+
+  const isClass = items.some((x) => typeof x[1] === "string");
+  const segments: Segment[] = [];
+  const create = (): Segment => ({
+    styles: isClass ? {} : { $global: true },
+    containers: new Map(),
+  });
+  let segment = create();
+
+  for (const leaf of leaves(nest(items), [], [])) {
+    if (!place(segment, leaf, isClass, false)) {
+      if (isClass) {
+        throw new TypeError(
+          `Unable to parse "${leaf[0].join(" ")}" into class styles in order`,
+        );
+      }
+      segments.push(segment);
+      segment = create();
+    }
+
+    place(segment, leaf, isClass, true);
+  }
+
+  if (isClass || Object.keys(segment.styles).length > 1) segments.push(segment);
+  return segments.map((x) => x.styles);
+}
+
+/**
+ * Transform the styles in a sheet back into global styles.
+ */
+export function toStyles(sheet: Sheet, options?: ParseOptions): Styles[] {
+  return parse(sheet.getStyles(), options);
+}
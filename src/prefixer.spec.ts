@@ -0,0 +1,125 @@
+import { describe, it, expect } from "vitest";
+import { compile, create } from "./index.js";
+import { prefixer } from "./prefixer.js";
+
+describe("prefixer", () => {
+  it("should prefix properties before the standard property", () => {
+    const sheet = create(undefined, "", { plugins: [prefixer()] });
+
+    const className = sheet.registerStyle({
+      userSelect: "none",
+      backdropFilter: "blur(2px)",
+      color: "red",
+    });
+
+    expect(sheet.getStyles()).toEqual(
+      `.${className}{-webkit-user-select:none;-moz-user-select:none;-ms-user-select:none;user-select:none;` +
+        `-webkit-backdrop-filter:blur(2px);backdrop-filter:blur(2px);color:red}`,
+    );
+  });
+
+  it("should only use the target vendors", () => {
+    const sheet = create(undefined, "", { plugins: [prefixer(["webkit"])] });
+
+    const className = sheet.registerStyle({
+      userSelect: "none",
+      tabSize: 2,
+    });
+
+    expect(sheet.getStyles()).toEqual(
+      `.${className}{-webkit-user-select:none;user-select:none;tab-size:2}`,
+    );
+  });
+
+  it("should prefix keyword values", () => {
+    const sheet = create(undefined, "", { plugins: [prefixer()] });
+
+    const className = sheet.registerStyle({
+      position: "sticky",
+      width: "fit-content",
+      cursor: "pointer",
+    });
+
+    expect(sheet.getStyles()).toEqual(
+      `.${className}{position:-webkit-sticky;position:sticky;` +
+        `width:-webkit-fit-content;width:-moz-fit-content;width:fit-content;cursor:pointer}`,
+    );
+  });
+
+  it("should prefix gradients with the legacy syntax", () => {
+    const sheet = create(undefined, "", { plugins: [prefixer(["webkit"])] });
+
+    const className = sheet.registerStyle({
+      background: [
+        "red",
+        "linear-gradient(to right, red 0%, blue 100%)",
+        "url(a.png), linear-gradient(45deg, red, blue)",
+        "radial-gradient(circle at center, red, blue)",
+      ],
+    });
+
+    expect(sheet.getStyles()).toEqual(
+      `.${className}{background:red;` +
+        "background:-webkit-linear-gradient(left, red 0%, blue 100%);" +
+        "background:linear-gradient(to right, red 0%, blue 100%);" +
+        "background:url(a.png), -webkit-linear-gradient(45deg, red, blue);" +
+        "background:url(a.png), linear-gradient(45deg, red, blue);" +
+        "background:-webkit-radial-gradient(center, circle, red, blue);" +
+        "background:radial-gradient(circle at center, red, blue)}",
+    );
+  });
+
+  it("should only prefix values with the property vendor", () => {
+    const sheet = create(undefined, "", { plugins: [prefixer()] });
+
+    const className = sheet.registerStyle({
+      maskImage: "linear-gradient(to top left, red, blue)",
+    });
+
+    expect(sheet.getStyles()).toEqual(
+      `.${className}{-webkit-mask-image:-webkit-linear-gradient(bottom right, red, blue);` +
+        "-webkit-mask-image:linear-gradient(to top left, red, blue);" +
+        "mask-image:-webkit-linear-gradient(bottom right, red, blue);" +
+        "mask-image:-moz-linear-gradient(bottom right, red, blue);" +
+        "mask-image:linear-gradient(to top left, red, blue)}",
+    );
+  });
+
+  it("should prefix selectors as unique styles", () => {
+    const sheet = create(undefined, "", { plugins: [prefixer(["moz", "ms"])] });
+
+    const className = sheet.registerStyle({
+      "& input::placeholder": { color: "gray" },
+    });
+
+    expect(sheet.getStyles()).toEqual(
+      `.${className} input::-moz-placeholder{color:gray}` +
+        `.${className} input:-ms-input-placeholder{color:gray}` +
+        `.${className} input::placeholder{color:gray}`,
+    );
+  });
+
+  it("should prefix keyframes", () => {
+    const sheet = create(undefined, "", { plugins: [prefixer(["webkit"])] });
+
+    const animation = sheet.registerStyle({
+      $global: true,
+      "@keyframes &": {
+        from: { transform: "none" },
+      },
+    });
+
+    expect(sheet.getStyles()).toEqual(
+      `@-webkit-keyframes ${animation}{from{-webkit-transform:none;transform:none}}` +
+        `@keyframes ${animation}{from{-webkit-transform:none;transform:none}}`,
+    );
+  });
+
+  it("should hash differently for each target list", () => {
+    const styles = { userSelect: "none" };
+
+    expect(compile(styles, { plugins: [prefixer(["webkit"])] }).id).not.toEqual(
+      compile(styles, { plugins: [prefixer(["moz"])] }).id,
+    );
+  });
+});
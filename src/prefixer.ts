@@ -0,0 +1,250 @@
+import type { Plugin, PropertyValue } from "./index.js";
+
+/**
+ * Vendor prefixes supported by the prefixer.
+ */
+export type Vendor = "webkit" | "moz" | "ms" | "o";
+
+/**
+ * Prefixes for standard properties.
+ */
+const PROPERTIES: Record<string, Vendor[]> = {
+  animation: ["webkit"],
+  "animation-delay": ["webkit"],
+  "animation-direction": ["webkit"],
+  "animation-duration": ["webkit"],
+  "animation-fill-mode": ["webkit"],
+  "animation-iteration-count": ["webkit"],
+  "animation-name": ["webkit"],
+  "animation-play-state": ["webkit"],
+  "animation-timing-function": ["webkit"],
+  appearance: ["webkit", "moz"],
+  "backdrop-filter": ["webkit"],
+  "backface-visibility": ["webkit"],
+  "box-decoration-break": ["webkit"],
+  "clip-path": ["webkit"],
+  "column-count": ["webkit", "moz"],
+  "column-gap": ["webkit", "moz"],
+  "column-rule": ["webkit", "moz"],
+  "column-width": ["webkit", "moz"],
+  columns: ["webkit", "moz"],
+  filter: ["webkit"],
+  "font-feature-settings": ["webkit", "moz"],
+  hyphens: ["webkit", "moz", "ms"],
+  mask: ["webkit"],
+  "mask-image": ["webkit"],
+  "mask-position": ["webkit"],
+  "mask-repeat": ["webkit"],
+  "mask-size": ["webkit"],
+  perspective: ["webkit"],
+  "print-color-adjust": ["webkit"],
+  "tab-size": ["moz", "o"],
+  "text-decoration-skip-ink": ["webkit"],
+  "text-size-adjust": ["webkit", "moz", "ms"],
+  transform: ["webkit", "ms"],
+  "transform-origin": ["webkit", "ms"],
+  "transform-style": ["webkit"],
+  transition: ["webkit"],
+  "transition-delay": ["webkit"],
+  "transition-duration": ["webkit"],
+  "transition-property": ["webkit"],
+  "transition-timing-function": ["webkit"],
+  "user-select": ["webkit", "moz", "ms"],
+};
+
+/**
+ * Prefixes for keyword values, by property.
+ */
+const VALUES: Record<string, Record<string, Vendor[]>> = {
+  cursor: {
+    grab: ["webkit", "moz"],
+    grabbing: ["webkit", "moz"],
+    "zoom-in": ["webkit", "moz"],
+    "zoom-out": ["webkit", "moz"],
+  },
+  display: {
+    flex: ["webkit"],
+    "inline-flex": ["webkit"],
+  },
+  position: {
+    sticky: ["webkit"],
+  },
+};
+
+/**
+ * Sizing keywords are prefixed for every sizing property.
+ */
+const SIZING_VALUES: Record<string, Vendor[]> = {
+  "fit-content": ["webkit", "moz"],
+  "max-content": ["webkit", "moz"],
+  "min-content": ["webkit", "moz"],
+};
+
+for (const property of ["width", "height"]) {
+  for (const prefix of ["", "min-", "max-"]) {
+    VALUES[prefix + property] = SIZING_VALUES;
+  }
+}
+
+/**
+ * Prefixed versions of standard selectors.
+ */
+const SELECTORS: Array<[string, Array<[Vendor, string]>]> = [
+  [
+    "::placeholder",
+    [
+      ["webkit", "::-webkit-input-placeholder"],
+      ["moz", "::-moz-placeholder"],
+      ["ms", ":-ms-input-placeholder"],
+    ],
+  ],
+  ["::selection", [["moz", "::-moz-selection"]]],
+  ["::file-selector-button", [["webkit", "::-webkit-file-upload-button"]]],
+  [
+    ":fullscreen",
+    [
+      ["webkit", ":-webkit-full-screen"],
+      ["moz", ":-moz-full-screen"],
+      ["ms", ":-ms-fullscreen"],
+    ],
+  ],
+  [":read-only", [["moz", ":-moz-read-only"]]],
+  [":read-write", [["moz", ":-moz-read-write"]]],
+];
+
+/**
+ * Vendors that support prefixed gradient functions.
+ */
+const GRADIENT_VENDORS: Vendor[] = ["webkit", "moz"];
+
+/**
+ * Match gradient functions with their first argument.
+ */
+const GRADIENT_RE =
+  /(^|[\s,(])((?:repeating-)?(linear|radial)-gradient)\(\s*([^,()]*)/g;
+
+/**
+ * Opposite sides used to convert `to <side>` into the legacy start side.
+ */
+const SIDES: Record<string, string> = {
+  top: "bottom",
+  bottom: "top",
+  left: "right",
+  right: "left",
+};
+
+/**
+ * Convert the standard gradient arguments into the legacy prefixed syntax.
+ */
+function legacyGradient(type: string, arg: string) {
+  if (type === "linear") {
+    const to = /^to\s+(.+)$/.exec(arg);
+    if (to) return to[1].replace(/\w+/g, (side) => SIDES[side] ?? side);
+
+    const deg = /^(-?[\d.]+)deg$/.exec(arg);
+    if (deg) return `${(450 - Number(deg[1])) % 360}deg`;
+
+    return arg;
+  }
+
+  const at = /^(.*?)\s*\bat\s+(.+)$/.exec(arg);
+  if (at) return at[1] ? `${at[2]}, ${at[1]}` : at[2];
+
+  return arg;
+}
+
+/**
+ * Prefix gradient functions in a value.
+ */
+function prefixGradients(value: string, vendor: Vendor) {
+  return value.replace(
+    GRADIENT_RE,
+    (_, before: string, fn: string, type: string, arg: string) =>
+      `${before}-${vendor}-${fn}(${legacyGradient(type, arg.trim())}`,
+  );
+}
+
+/**
+ * Get the vendor from a prefixed property name.
+ */
+function getVendor(property: string): Vendor | undefined {
+  const match = /^-(webkit|moz|ms|o)-/.exec(property);
+  return match ? (match[1] as Vendor) : undefined;
+}
+
+/**
+ * Create a plugin that expands standard properties, values, selectors and
+ * `@keyframes` into vendor prefixed variants before the standard form.
+ */
+export function prefixer(targets: Vendor[] = ["webkit", "moz", "ms"]): Plugin {
+  const enabled = new Set(targets);
+
+  // Only use vendors supported by the property and enabled in targets.
+  const filter = (vendors: Vendor[], property: string) => {
+    const vendor = getVendor(property);
+    if (vendor) return vendors.filter((x) => x === vendor && enabled.has(x));
+    return vendors.filter((x) => enabled.has(x));
+  };
+
+  return {
+    name: `prefixer(${targets.join(",")})`,
+    property(property) {
+      const vendors = PROPERTIES[property];
+      if (!vendors) return property;
+
+      return [
+        ...vendors
+          .filter((x) => enabled.has(x))
+          .map((x) => `-${x}-${property}`),
+        property,
+      ];
+    },
+    value(value, property) {
+      if (typeof value !== "string") return value;
+
+      const values: PropertyValue[] = [];
+      const keywords = VALUES[property.replace(/^-\w+-/, "")];
+      const vendors = keywords?.[value];
+
+      if (vendors) {
+        for (const vendor of filter(vendors, property)) {
+          values.push(`-${vendor}-${value}`);
+        }
+      }
+
+      if (value.includes("-gradient(")) {
+        for (const vendor of filter(GRADIENT_VENDORS, property)) {
+          values.push(prefixGradients(value, vendor));
+        }
+      }
+
+      if (!values.length) return value;
+
+      values.push(value);
+      return values;
+    },
+    selector(selector) {
+      const selectors: string[] = [];
+
+      for (const [standard, prefixes] of SELECTORS) {
+        if (!selector.includes(standard)) continue;
+
+        for (const [vendor, prefixed] of prefixes) {
+          if (enabled.has(vendor)) {
+            selectors.push(selector.split(standard).join(prefixed));
+          }
+        }
+      }
+
+      if (!selectors.length) return selector;
+
+      selectors.push(selector);
+      return selectors;
+    },
+    rule(rule) {
+      if (!enabled.has("webkit") || !/^@keyframes\b/.test(rule)) return rule;
+
+      return [`@-webkit-${rule.slice(1)}`, rule];
+    },
+  };
+}
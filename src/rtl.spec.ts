@@ -0,0 +1,114 @@
+import { describe, it, expect } from "vitest";
+import { compile, create } from "./index.js";
+import { rtl } from "./rtl.js";
+
+describe("rtl", () => {
+  it("should flip physical properties and values", () => {
+    const sheet = create(undefined, "", { rtl: rtl() });
+
+    const className = sheet.registerStyle({
+      marginLeft: 10,
+      paddingRight: "1em",
+      borderTopLeftRadius: 2,
+      float: "left",
+      textAlign: "right",
+      padding: "1px 2px 3px 4px",
+      margin: "1px 2px",
+      transform: "translateX(10px) rotate(45deg) translate(-50%, 10px)",
+      translate: "calc(100% - 1px) 2px",
+      color: "red",
+    });
+
+    expect(sheet.getStyles()).toEqual(
+      `.${className}{margin-right:10px;padding-left:1em;border-top-right-radius:2px;` +
+        "float:right;text-align:left;padding:1px 4px 3px 2px;margin:1px 2px;" +
+        "transform:translateX(-10px) rotate(45deg) translate(50%, 10px);" +
+        "translate:calc(-1 * (100% - 1px)) 2px;color:red}",
+    );
+  });
+
+  it("should negate values that are not plain numbers with calc", () => {
+    const sheet = create(undefined, "", { rtl: rtl() });
+
+    const className = sheet.registerStyle({
+      transform:
+        "translateX(var(--x)) translate(calc(var(--y) + 1px), 0) translate3d(0, 1px, 2px)",
+      translate: "var(--x, 10px) 2px",
+    });
+
+    expect(sheet.getStyles()).toEqual(
+      `.${className}{transform:translateX(calc(-1 * var(--x))) ` +
+        "translate(calc(-1 * (var(--y) + 1px)), 0) translate3d(0, 1px, 2px);" +
+        "translate:calc(-1 * var(--x, 10px)) 2px}",
+    );
+  });
+
+  it("should negate values with deeply nested functions", () => {
+    const sheet = create(undefined, "", { rtl: rtl() });
+
+    const className = sheet.registerStyle({
+      transform: "translateX(calc(var(--a, calc(1px + 2px)))) scale(2)",
+      translate: "calc(var(--a, calc(1px + 2px))) 2px",
+    });
+
+    expect(sheet.getStyles()).toEqual(
+      `.${className}{transform:translateX(calc(-1 * (var(--a, calc(1px + 2px))))) scale(2);` +
+        "translate:calc(-1 * (var(--a, calc(1px + 2px)))) 2px}",
+    );
+  });
+
+  it("should support no flip opt-outs", () => {
+    const sheet = create(undefined, "", { rtl: rtl() });
+
+    const className = sheet.registerStyle({
+      float: "left",
+      "& .logo": {
+        $noflip: true,
+        float: "left",
+        "& img": { marginLeft: 10 },
+      },
+    });
+
+    expect(sheet.getStyles()).toEqual(
+      `.${className}{float:right}.${className} .logo{float:left}` +
+        `.${className} .logo img{margin-left:10px}`,
+    );
+  });
+
+  it("should output dual direction styles", () => {
+    const sheet = create(undefined, "", { rtl: rtl("dual") });
+
+    const className = sheet.registerStyle({
+      color: "red",
+      marginLeft: 10,
+      float: "left",
+      "@media print": {
+        paddingLeft: 5,
+        paddingRight: 10,
+      },
+    });
+
+    expect(sheet.getStyles()).toEqual(
+      `.${className}{color:red;margin-left:10px;float:left}` +
+        `[dir=rtl] .${className}{margin-left:initial;margin-right:10px;float:right}` +
+        `@media print{.${className}{padding-left:5px;padding-right:10px}` +
+        `[dir=rtl] .${className}{padding-right:5px;padding-left:10px}}`,
+    );
+  });
+
+  it("should not output dual styles without changes", () => {
+    const sheet = create(undefined, "", { rtl: rtl("dual") });
+    const className = sheet.registerStyle({ color: "red" });
+
+    expect(sheet.getStyles()).toEqual(`.${className}{color:red}`);
+  });
+
+  it("should include the mode in the hash", () => {
+    const styles = { color: "red" };
+
+    expect(compile(styles).id).not.toEqual(compile(styles, { rtl: rtl() }).id);
+    expect(compile(styles, { rtl: rtl() }).id).not.toEqual(
+      compile(styles, { rtl: rtl("dual") }).id,
+    );
+  });
+});
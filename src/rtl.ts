@@ -0,0 +1,158 @@
+import type { Flipper, PropertyValue } from "./index.js";
+import { scan } from "./scan.js";
+
+/**
+ * Property name and value to flip.
+ */
+type Declaration = [string, NonNullable<PropertyValue>];
+
+/**
+ * Properties with `left` and `right` keyword values.
+ */
+const RTL_KEYWORD_PROPERTIES = new Set([
+  "float",
+  "clear",
+  "text-align",
+  "text-align-last",
+]);
+
+/**
+ * Properties with the top, right, bottom, left shorthand syntax.
+ */
+const RTL_SHORTHAND_PROPERTIES = new Set([
+  "margin",
+  "padding",
+  "inset",
+  "border-color",
+  "border-style",
+  "border-width",
+  "scroll-margin",
+  "scroll-padding",
+]);
+
+/**
+ * Swap `left` and `right`.
+ */
+function flipSide(side: string) {
+  return side === "left" ? "right" : side === "right" ? "left" : side;
+}
+
+/**
+ * Match a number with an optional unit, e.g. `-10px` or `50%`.
+ */
+const NUMBER_RE = /^[+-]?(?:\d+\.?\d*|\.\d+)(?:[a-z]+|%)?$/i;
+
+/**
+ * Match translate functions in `transform` values, up to the first argument.
+ */
+const TRANSLATE_FN_RE = /\b(?:translateX|translate|translate3d)\(\s*/g;
+
+/**
+ * Negate a CSS length, used for horizontal translations. Values that are not
+ * plain numbers (e.g. `var(--x)`) are multiplied by `-1` using `calc()`.
+ */
+function negate(value: string) {
+  if (/^calc\(/.test(value)) return `calc(-1 * ${value.slice(4)})`;
+  if (!NUMBER_RE.test(value)) return `calc(-1 * ${value})`;
+  if (value.charCodeAt(0) === 45 /* - */) return value.slice(1);
+  if (value.charCodeAt(0) === 43 /* + */) return `-${value.slice(1)}`;
+  return /^0*\.?0*(?:[a-z]+|%)?$/i.test(value) ? value : `-${value}`;
+}
+
+/**
+ * Negate the value at `start`, ending at top-level whitespace, a comma or the
+ * closing parenthesis of the enclosing function.
+ */
+function negateAt(value: string, start: number) {
+  let end = value.length;
+
+  scan(value.slice(start), (char, index, depth) => {
+    if (start + index > end) return;
+    if (depth < 0 || (depth === 0 && (char === "," || /\s/.test(char)))) {
+      end = start + index;
+    }
+  });
+
+  return `${value.slice(0, start)}${negate(value.slice(start, end))}${value.slice(end)}`;
+}
+
+/**
+ * Flip a declaration between left-to-right and right-to-left.
+ */
+function flip([name, value]: Declaration): Declaration {
+  // Custom properties are never flipped.
+  if (name.startsWith("--")) return [name, value];
+
+  const property = name.replace(
+    /(^|-)(left|right)(?=-|$)/g,
+    (_, x, side) => x + flipSide(side),
+  );
+
+  if (typeof value !== "string") return [property, value];
+
+  if (RTL_KEYWORD_PROPERTIES.has(property)) {
+    return [property, flipSide(value)];
+  }
+
+  if (property === "direction") {
+    return [
+      property,
+      value === "rtl" ? "ltr" : value === "ltr" ? "rtl" : value,
+    ];
+  }
+
+  if (RTL_SHORTHAND_PROPERTIES.has(property)) {
+    const parts = value.split(/\s+/);
+    if (parts.length !== 4) return [property, value];
+    return [property, [parts[0], parts[3], parts[2], parts[1]].join(" ")];
+  }
+
+  if (property === "translate") {
+    return [property, negateAt(value, 0)];
+  }
+
+  if (property === "transform") {
+    const starts = Array.from(
+      value.matchAll(TRANSLATE_FN_RE),
+      (match) => match.index! + match[0].length,
+    );
+
+    // Replace from the end so earlier indexes stay valid.
+    return [property, starts.reduceRight(negateAt, value)];
+  }
+
+  return [property, value];
+}
+
+/**
+ * Generate the `[dir=rtl]` overrides for declarations, resetting physical
+ * properties that only exist in the left-to-right styles.
+ */
+function overrides(
+  declarations: Declaration[],
+  flipped: Declaration[],
+): Declaration[] {
+  const changed = flipped.filter(
+    ([name, value], i) =>
+      name !== declarations[i][0] || value !== declarations[i][1],
+  );
+
+  if (!changed.length) return [];
+
+  const names = new Set(flipped.map(([name]) => name));
+  const resets = new Set(
+    declarations.filter(([name]) => !names.has(name)).map(([name]) => name),
+  );
+
+  return [...resets]
+    .map((name): Declaration => [name, "initial"])
+    .concat(changed);
+}
+
+/**
+ * Flip physical directions for RTL, e.g. `margin-left` becomes `margin-right`.
+ * Use `"dual"` to keep the original styles and add `[dir=rtl]` overrides.
+ */
+export function rtl(mode: "flip" | "dual" = "flip"): Flipper {
+  return mode === "dual" ? { flip, overrides } : { flip };
+}
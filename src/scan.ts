@@ -0,0 +1,70 @@
+/**
+ * Call `fn` for each character outside of strings and escapes, with the current
+ * `()` and `[]` nesting depth.
+ */
+export function scan(
+  value: string,
+  fn: (char: string, index: number, depth: number) => void,
+) {
+  let depth = 0;
+  let quote = "";
+
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+
+    if (char === "\\") {
+      i++;
+    } else if (quote) {
+      if (char === quote) quote = "";
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else {
+      if (char === "(" || char === "[") depth++;
+      if (char === ")" || char === "]") depth--;
+      fn(char, i, depth);
+    }
+  }
+}
+
+/**
+ * Split a style string into property and value pairs, ignoring `;` in strings
+ * and functions.
+ */
+export function declarations(style: string): Array<[string, string]> {
+  const result: Array<[string, string]> = [];
+  let start = 0;
+
+  const push = (end: number) => {
+    const declaration = style.slice(start, end);
+    const index = declaration.indexOf(":");
+    if (index > 0) {
+      result.push([declaration.slice(0, index), declaration.slice(index + 1)]);
+    }
+    start = end + 1;
+  };
+
+  scan(style, (char, index, depth) => {
+    if (char === ";" && depth === 0) push(index);
+  });
+
+  push(style.length);
+  return result;
+}
+
+/**
+ * Split a selector list on top-level commas, e.g. `a, :is(b, c)`.
+ */
+export function split(selector: string): string[] {
+  const selectors: string[] = [];
+  let start = 0;
+
+  scan(selector, (char, index, depth) => {
+    if (char === "," && depth === 0) {
+      selectors.push(selector.slice(start, index).trim());
+      start = index + 1;
+    }
+  });
+
+  selectors.push(selector.slice(start).trim());
+  return selectors;
+}
@@ -0,0 +1,99 @@
+import { describe, it, expect } from "vitest";
+import { create } from "./index.js";
+import { serializer } from "./serializer.js";
+
+describe("serializer", () => {
+  it("should replace class names and print the matching css", () => {
+    const sheet = create();
+
+    const button = sheet.registerStyle({
+      $displayName: "Button",
+      color: "red",
+      "&:hover": { color: "blue" },
+      "@media (min-width: 400px)": {
+        background: "url(a;b.png)",
+      },
+    });
+
+    const icon = sheet.registerStyle({ width: 10 });
+    const unused = sheet.registerStyle({ color: "green" });
+
+    const { test, serialize } = serializer(sheet);
+    const markup = `<button class="${button}"><i class="${icon}"></i></button>`;
+
+    expect(test(markup)).toBe(true);
+    expect(test(`<div class="${unused}x"></div>`)).toBe(false);
+    expect(test(1)).toBe(false);
+
+    expect(serialize(markup)).toEqual(
+      [
+        '<button class="Button-0"><i class="c-0"></i></button>',
+        "",
+        ".Button-0 {",
+        "  color: red;",
+        "}",
+        ".Button-0:hover {",
+        "  color: blue;",
+        "}",
+        "@media (min-width: 400px) {",
+        "  .Button-0 {",
+        "    background: url(a;b.png);",
+        "  }",
+        "}",
+        ".c-0 {",
+        "  width: 10px;",
+        "}",
+      ].join("\n"),
+    );
+  });
+
+  it("should only print selectors used in the markup", () => {
+    const sheet = create();
+
+    const a = sheet.registerStyle({ color: "red" });
+    const b = sheet.registerStyle({ $displayName: "Other", color: "red" });
+
+    const { serialize } = serializer(sheet);
+
+    expect(serialize(`<div class="${b}"></div>`)).toEqual(
+      [
+        '<div class="Other-0"></div>',
+        "",
+        ".Other-0 {",
+        "  color: red;",
+        "}",
+      ].join("\n"),
+    );
+
+    expect(serialize(`<a class="${a}"></a><b class="${a}"></b>`)).toEqual(
+      [
+        '<a class="c-0"></a><b class="c-0"></b>',
+        "",
+        ".c-0 {",
+        "  color: red;",
+        "}",
+      ].join("\n"),
+    );
+  });
+
+  it("should be stable when styles change", () => {
+    const render = (color: string) => {
+      const sheet = create();
+      const className = sheet.registerStyle({ $displayName: "Box", color });
+      return serializer(sheet).serialize(`<div class="${className}"></div>`);
+    };
+
+    expect(render("red").split("\n")[0]).toEqual(render("blue").split("\n")[0]);
+  });
+
+  it("should number class names in order of appearance", () => {
+    const sheet = create();
+
+    const a = sheet.registerStyle({ $displayName: "Item", color: "red" });
+    const b = sheet.registerStyle({ $displayName: "Item", color: "blue" });
+
+    const { serialize } = serializer(sheet);
+
+    expect(serialize(`${b} ${a}`).split("\n")[0]).toEqual("Item-0 Item-1");
+  });
+});
@@ -0,0 +1,132 @@
+import { Rule, Style } from "./index.js";
+import type { Sheet } from "./index.js";
+import { declarations } from "./scan.js";
+
+/**
+ * Snapshot serializer interface supported by `vitest` and `jest`.
+ */
+export interface SnapshotSerializer {
+  test(value: unknown): boolean;
+  serialize(value: unknown): string;
+}
+
+/**
+ * Indentation used for each level of nested CSS.
+ */
+const INDENT = "  ";
+
+/**
+ * Escape a string for use in a regular expression.
+ */
+function escapeRegExp(str: string) {
+  return str.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Match a class name surrounded by non-identifier characters.
+ */
+function classNameRegExp(className: string) {
+  return new RegExp(`(?<![\\w-])${escapeRegExp(className)}(?![\\w-])`, "g");
+}
+
+/**
+ * Pretty print a style string as indented declarations.
+ */
+function printStyle(style: string, indent: string) {
+  return declarations(style).map(
+    ([name, value]) => `${indent}${name}: ${value};\n`,
+  );
+}
+
+/**
+ * Pretty print the containers matching the class names.
+ */
+function print(
+  containers: readonly unknown[],
+  isRelevant: (selector: string) => boolean,
+  indent: string,
+): string {
+  let result = "";
+
+  for (const item of containers) {
+    if (item instanceof Style) {
+      const selectors = item
+        .values()
+        .map((x) => x.selector)
+        .filter(isRelevant);
+
+      if (!selectors.length) continue;
+
+      result += `${indent}${selectors.join(`,\n${indent}`)} {\n`;
+      result += printStyle(item.style, indent + INDENT).join("");
+      result += `${indent}}\n`;
+    } else if (item instanceof Rule) {
+      const children = print(item.values(), isRelevant, indent + INDENT);
+
+      if (!children) continue;
+
+      result += `${indent}${item.rule} {\n`;
+      result += printStyle(item.style, indent + INDENT).join("");
+      result += `${children}${indent}}\n`;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Create a snapshot serializer for strings (e.g. rendered markup) using class
+ * names from the sheet. Class names are replaced with stable names using the
+ * `$displayName` and order of appearance, followed by the matching CSS.
+ */
+export function serializer(sheet: Sheet): SnapshotSerializer {
+  // Find the registered class names used in the string, in order of appearance.
+  const find = (value: string) => {
+    const found: Array<[index: number, className: string, name: string]> = [];
+
+    for (const [className, compiled] of sheet.classNames()) {
+      if (className.includes(" ")) continue; // Atomic class name lists.
+
+      const index = value.search(classNameRegExp(className));
+      if (index > -1)
+        found.push([index, className, compiled.displayName ?? "c"]);
+    }
+
+    return found.sort((a, b) => a[0] - b[0]);
+  };
+
+  return {
+    test(value) {
+      return typeof value === "string" && find(value).length > 0;
+    },
+    serialize(value) {
+      const markup = String(value);
+      const found = find(markup);
+      const names = new Map<string, string>();
+      const counts = new Map<string, number>();
+
+      for (const [, className, displayName] of found) {
+        const count = counts.get(displayName) ?? 0;
+        counts.set(displayName, count + 1);
+        names.set(className, `${displayName}-${count}`);
+      }
+
+      const replace = (str: string) => {
+        for (const [className, name] of names) {
+          str = str.replace(classNameRegExp(className), name);
+        }
+        return str;
+      };
+
+      const isRelevant = (selector: string) => {
+        for (const className of names.keys()) {
+          if (classNameRegExp(className).test(selector)) return true;
+        }
+        return false;
+      };
+
+      const css = print(sheet.values(), isRelevant, "");
+      return css ? `${replace(markup)}\n\n${replace(css).trimEnd()}` : markup;
+    },
+  };
+}
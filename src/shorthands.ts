@@ -0,0 +1,144 @@
+/**
+ * Sides in shorthand value order.
+ */
+const SIDES = ["top", "right", "bottom", "left"];
+
+/**
+ * Create the longhands reset by each shorthand, used to remove overridden
+ * declarations and for atomic specificity.
+ */
+function longhands() {
+  const map = new Map<string, string[]>([
+    ["margin", SIDES.map((x) => `margin-${x}`)],
+    ["padding", SIDES.map((x) => `padding-${x}`)],
+    ["inset", SIDES],
+    [
+      "border",
+      ["border-width", "border-style", "border-color", "border-image"],
+    ],
+    [
+      "border-radius",
+      ["top-left", "top-right", "bottom-right", "bottom-left"].map(
+        (x) => `border-${x}-radius`,
+      ),
+    ],
+    [
+      "background",
+      ["color", "image", "position", "size", "repeat", "origin", "clip"].map(
+        (x) => `background-${x}`,
+      ),
+    ],
+    ["flex", ["flex-grow", "flex-shrink", "flex-basis"]],
+    ["flex-flow", ["flex-direction", "flex-wrap"]],
+    ["gap", ["row-gap", "column-gap"]],
+    ["overflow", ["overflow-x", "overflow-y"]],
+    ["outline", ["outline-width", "outline-style", "outline-color"]],
+    [
+      "list-style",
+      ["list-style-type", "list-style-position", "list-style-image"],
+    ],
+    [
+      "transition",
+      ["property", "duration", "timing-function", "delay"].map(
+        (x) => `transition-${x}`,
+      ),
+    ],
+    [
+      "animation",
+      [
+        "name",
+        "duration",
+        "timing-function",
+        "delay",
+        "iteration-count",
+        "direction",
+        "fill-mode",
+        "play-state",
+      ].map((x) => `animation-${x}`),
+    ],
+    [
+      "font",
+      [
+        "font-style",
+        "font-variant",
+        "font-weight",
+        "font-stretch",
+        "font-size",
+        "line-height",
+        "font-family",
+      ],
+    ],
+    ["place-content", ["align-content", "justify-content"]],
+    ["place-items", ["align-items", "justify-items"]],
+    ["place-self", ["align-self", "justify-self"]],
+    [
+      "grid",
+      [
+        "grid-template",
+        "grid-auto-rows",
+        "grid-auto-columns",
+        "grid-auto-flow",
+      ],
+    ],
+    [
+      "grid-template",
+      ["grid-template-rows", "grid-template-columns", "grid-template-areas"],
+    ],
+    ["grid-area", ["grid-row", "grid-column"]],
+    ["grid-row", ["grid-row-start", "grid-row-end"]],
+    ["grid-column", ["grid-column-start", "grid-column-end"]],
+    ["columns", ["column-width", "column-count"]],
+    [
+      "column-rule",
+      ["column-rule-width", "column-rule-style", "column-rule-color"],
+    ],
+    [
+      "text-decoration",
+      ["line", "color", "style", "thickness"].map(
+        (x) => `text-decoration-${x}`,
+      ),
+    ],
+    ["text-emphasis", ["text-emphasis-style", "text-emphasis-color"]],
+    [
+      "mask",
+      [
+        "image",
+        "mode",
+        "position",
+        "size",
+        "repeat",
+        "origin",
+        "clip",
+        "composite",
+      ].map((x) => `mask-${x}`),
+    ],
+    ...["block", "inline"].map((axis): [string, string[]] => [
+      `border-${axis}`,
+      ["start", "end", "width", "style", "color"].map(
+        (x) => `border-${axis}-${x}`,
+      ),
+    ]),
+    ["scroll-margin", SIDES.map((x) => `scroll-margin-${x}`)],
+    ["scroll-padding", SIDES.map((x) => `scroll-padding-${x}`)],
+  ]);
+
+  for (const type of ["width", "style", "color"]) {
+    map.set(
+      `border-${type}`,
+      SIDES.map((x) => `border-${x}-${type}`),
+    );
+  }
+
+  for (const side of SIDES) {
+    const sides = ["width", "style", "color"].map((x) => `border-${side}-${x}`);
+    map.set(`border-${side}`, sides);
+    map.get("border")!.push(`border-${side}`);
+  }
+
+  return map;
+}
+
+/**
+ * Longhands reset by each shorthand.
+ */
+export const LONGHANDS = /* @__PURE__ */ longhands();
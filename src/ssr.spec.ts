@@ -0,0 +1,297 @@
+import { describe, it, expect } from "vitest";
+import { compile, create, Rule, Selector, Style } from "./index.js";
+import { getStyleTags, hydrate, serialize, track } from "./ssr.js";
+
+describe("hydrate", () => {
+  const styles = {
+    color: "red",
+    "@media print": {
+      color: "blue",
+      "@supports (display: grid)": { display: "grid" },
+    },
+  };
+
+  it("should restore serialized styles", () => {
+    const server = create();
+
+    server.registerStyle(styles);
+    server.registerStyle({ ...styles, $displayName: "foo" });
+    server.registerStyle({ $global: true, body: { margin: 0 } });
+
+    const data = JSON.parse(JSON.stringify(serialize(server)));
+    const client = hydrate(create(), data);
+
+    expect(client.getStyles()).toEqual(server.getStyles());
+    expect(serialize(client)).toEqual(serialize(server));
+  });
+
+  it("should not emit changes for hydrated styles", () => {
+    const server = create();
+    const serverClassName = server.registerStyle(styles);
+    const added: unknown[] = [];
+    const removed: unknown[] = [];
+
+    const client = create({
+      add(style) {
+        added.push(style);
+      },
+      change() {
+        throw new TypeError("Unexpected change");
+      },
+      remove(style) {
+        removed.push(style);
+      },
+    });
+
+    hydrate(client, serialize(server));
+
+    const changeId = client.changeId;
+    const clientClassName = client.registerStyle(styles);
+
+    expect(clientClassName).toEqual(serverClassName);
+    expect(client.changeId).toEqual(changeId);
+    expect(client.getStyles()).toEqual(server.getStyles());
+    expect(added).toHaveLength(0);
+
+    client.unregister(compile(styles));
+    expect(removed).toHaveLength(2);
+    expect(client.getStyles()).toEqual("");
+  });
+
+  it("should keep restored references until taken over", () => {
+    const server = create();
+    server.registerStyle(styles);
+    server.registerStyle(styles);
+
+    const client = hydrate(create(), serialize(server));
+    const compiled = compile(styles);
+
+    client.register(compiled);
+    client.unregister(compiled);
+    expect(client.getStyles()).toEqual(server.getStyles());
+
+    client.register(compiled);
+    client.register(compiled);
+    client.unregister(compiled);
+    client.unregister(compiled);
+    expect(client.getStyles()).toEqual("");
+  });
+
+  it("should merge children of restored rules", () => {
+    const server = create();
+    server.registerStyle(styles);
+    server.registerStyle({ ...styles, $displayName: "foo" });
+
+    const client = create();
+    client.registerStyle(styles);
+    hydrate(client, serialize(server));
+
+    expect(client.getStyles()).toEqual(server.getStyles());
+  });
+
+  it("should hydrate sheets with layers", () => {
+    const options = { layers: ["reset", "app"] };
+    const server = create(undefined, "", options);
+
+    server.registerStyle({ $layer: "app", color: "red" });
+
+    const client = hydrate(create(undefined, "", options), serialize(server));
+
+    expect(client.getStyles()).toEqual(server.getStyles());
+  });
+});
+
+describe("get styles since", () => {
+  it("should render styles added since the checkpoint", () => {
+    const sheet = create();
+    const tracker = track(sheet);
+
+    const className1 = sheet.registerStyle({ color: "red" });
+    const chunk1 = tracker.getStylesSince(0);
+
+    expect(chunk1.styles).toEqual(`.${className1}{color:red}`);
+    expect(chunk1.changeId).toEqual(sheet.changeId);
+
+    const className2 = sheet.registerStyle({ color: "blue" });
+    const chunk2 = tracker.getStylesSince(chunk1.changeId);
+
+    expect(chunk2.styles).toEqual(`.${className2}{color:blue}`);
+    expect(tracker.getStylesSince(chunk2.changeId).styles).toEqual("");
+    expect(tracker.getStylesSince(0).styles).toEqual(sheet.getStyles());
+  });
+
+  it("should render new selectors of merged containers", () => {
+    const sheet = create();
+    const tracker = track(sheet);
+    const styles = {
+      color: "red",
+      "@media print": {
+        color: "blue",
+        "@supports (display: grid)": { display: "grid" },
+      },
+    };
+
+    sheet.registerStyle({ ...styles, $displayName: "a" });
+    const { changeId } = tracker.getStylesSince(0);
+    const className = sheet.registerStyle({ ...styles, $displayName: "b" });
+
+    expect(tracker.getStylesSince(changeId).styles).toEqual(
+      `.${className}{color:red}@media print{.${className}{color:blue}` +
+        `@supports (display: grid){.${className}{display:grid}}}`,
+    );
+  });
+
+  it("should render nested containers added to merged rules", () => {
+    const sheet = create();
+    const tracker = track(sheet);
+    const rule1 = new Rule("@media print", "", "id");
+    const rule2 = new Rule("@media print", "", "id");
+    const style1 = new Style("color:red", "id");
+    const style2 = new Style("color:blue", "id");
+
+    style1.add(new Selector("body"));
+    style2.add(new Selector("a"));
+    rule1.add(style1);
+    rule2.add(style2);
+
+    sheet.add(rule1);
+    const { changeId } = tracker.getStylesSince(0);
+    sheet.add(rule2);
+
+    expect(sheet.getStyles()).toEqual(
+      "@media print{body{color:red}a{color:blue}}",
+    );
+    expect(tracker.getStylesSince(changeId).styles).toEqual(
+      "@media print{a{color:blue}}",
+    );
+  });
+
+  it("should render styles re-added after removal", () => {
+    const sheet = create();
+    const tracker = track(sheet);
+    const other = create();
+
+    other.registerStyle({ color: "red" });
+    sheet.merge(other);
+    sheet.unmerge(other);
+
+    const { changeId } = tracker.getStylesSince(0);
+    sheet.merge(other);
+
+    expect(tracker.getStylesSince(changeId).styles).toEqual(sheet.getStyles());
+  });
+
+  it("should not render hydrated styles", () => {
+    const server = create();
+    server.registerStyle({ color: "red" });
+
+    const client = hydrate(create(), serialize(server));
+    const tracker = track(client);
+    const className = client.registerStyle({ color: "blue" });
+
+    expect(tracker.getStylesSince(0).styles).toEqual(
+      `.${className}{color:blue}`,
+    );
+  });
+
+  it("should not render hydrated children of merged rules", () => {
+    const styles = { "@media print": { color: "red" } };
+    const server = create();
+    server.registerStyle(styles);
+
+    const client = hydrate(create(), serialize(server));
+    const tracker = track(client);
+    const className = client.registerStyle({ ...styles, $displayName: "b" });
+
+    expect(tracker.getStylesSince(0).styles).toEqual(
+      `@media print{.${className}{color:red}}`,
+    );
+  });
+
+  it("should include existing styles and forward changes", () => {
+    const added: unknown[] = [];
+    const sheet = create({
+      add: (style) => added.push(style),
+      change: () => undefined,
+      remove: () => undefined,
+    });
+
+    sheet.registerStyle({ color: "red" });
+    const tracker = track(sheet);
+    sheet.registerStyle({ color: "blue" });
+
+    expect(tracker.getStylesSince(0).styles).toEqual(sheet.getStyles());
+    expect(added).toHaveLength(2);
+  });
+});
+
+describe("style tags", () => {
+  it("should render a single style tag", () => {
+    const sheet = create();
+    const className = sheet.registerStyle({ color: "red" });
+
+    expect(getStyleTags(sheet)).toEqual(
+      `<style>.${className}{color:red}</style>`,
+    );
+  });
+
+  it("should render attributes", () => {
+    const sheet = create();
+    const className = sheet.registerStyle({ color: "red" });
+
+    expect(
+      getStyleTags(sheet, {
+        nonce: 'a"b',
+        id: "styles",
+        attributes: { "data-free-style": true, "data-skip": false },
+      }),
+    ).toEqual(
+      `<style id="styles" nonce="a&quot;b" data-free-style>.${className}{color:red}</style>`,
+    );
+  });
+
+  it("should throw on invalid attribute names", () => {
+    const sheet = create();
+
+    for (const name of ["", "a b", 'a"b', "a>b", "a/b", "a=b"]) {
+      expect(() =>
+        getStyleTags(sheet, { attributes: { [name]: true } }),
+      ).toThrow(TypeError);
+    }
+  });
+
+  it("should not override options with attributes", () => {
+    const sheet = create();
+
+    for (const name of ["id", "nonce", "NONCE"]) {
+      expect(() =>
+        getStyleTags(sheet, { nonce: "abc", attributes: { [name]: "x" } }),
+      ).toThrow(TypeError);
+    }
+  });
+
+  it("should escape closing style tags", () => {
+    const sheet = create();
+    const className = sheet.registerStyle({
+      "&::after": { content: '"</STYLE><script>"' },
+    });
+
+    expect(getStyleTags(sheet)).toEqual(
+      `<style>.${className}::after{content:"<\\/STYLE><script>"}</style>`,
+    );
+  });
+
+  it("should render a style tag per container", () => {
+    const sheet = create();
+    const className = sheet.registerStyle({
+      color: "red",
+      "@media print": { color: "blue" },
+    });
+
+    expect(getStyleTags(sheet, { split: true, id: "s", nonce: "x" })).toEqual(
+      `<style id="s-0" nonce="x">.${className}{color:red}</style>` +
+        `<style id="s-1" nonce="x">@media print{.${className}{color:blue}}</style>`,
+    );
+    expect(getStyleTags(create(), { split: true })).toEqual("");
+  });
+});
@@ -0,0 +1,285 @@
+import { Cache, LayerStatement, Rule, Selector, Style } from "./index.js";
+import type { Changes, Container, Sheet } from "./index.js";
+
+/**
+ * Incremental styles output with the checkpoint for the next call.
+ */
+export interface StylesSince {
+  styles: string;
+  changeId: number;
+}
+
+/**
+ * Sheet `changeId` when each container was first rendered, hydrated containers
+ * use `0` since they're already on the page.
+ */
+const stamps = new WeakMap<Container<any>, number>();
+
+/**
+ * Record the `changeId` for the container and new children.
+ */
+function stamp(item: Container<any>, changeId: number) {
+  if (!stamps.has(item)) stamps.set(item, changeId);
+
+  if (item instanceof Cache) {
+    for (const child of item.values()) stamp(child, changeId);
+  }
+}
+
+/**
+ * Render the parts of a container added after the `changeId` checkpoint.
+ */
+function since(item: Container<any>, changeId: number): string {
+  if ((stamps.get(item) ?? 0) > changeId) return item.getStyles();
+
+  if (item instanceof Style) {
+    const selectors = item
+      .values()
+      .filter((x) => (stamps.get(x) ?? 0) > changeId)
+      .map((x) => x.getStyles());
+
+    return selectors.length ? `${selectors.join(",")}{${item.style}}` : "";
+  }
+
+  if (item instanceof Rule) {
+    const styles = item
+      .values()
+      .map((x) => since(x, changeId))
+      .join("");
+
+    return styles ? `${item.rule}{${styles}}` : "";
+  }
+
+  return "";
+}
+
+/**
+ * Record when containers are rendered to get the styles added since a
+ * checkpoint, e.g. for streaming. Changes are forwarded to the previous
+ * `changes` handler. Styles already in the sheet are rendered after the
+ * current `changeId`, except hydrated styles.
+ */
+export class Tracker implements Changes {
+  constructor(
+    public sheet: Sheet,
+    public changes = sheet.changes,
+  ) {
+    sheet.changes = this;
+    sheet.values().forEach((x) => stamp(x, sheet.changeId));
+  }
+
+  add(style: Container<any>, index: number) {
+    stamp(style, this.sheet.changeId);
+    this.changes?.add(style, index);
+  }
+
+  change(style: Container<any>, index: number) {
+    stamp(style, this.sheet.changeId);
+    this.changes?.change(style, index);
+  }
+
+  remove(style: Container<any>, index: number) {
+    this.changes?.remove(style, index);
+  }
+
+  /**
+   * Render styles added since the `changeId` checkpoint. Removed styles are not
+   * tracked, and hydrated styles are never included.
+   */
+  getStylesSince(changeId: number): StylesSince {
+    return {
+      styles: this.sheet
+        .values()
+        .map((x) => since(x, changeId))
+        .join(""),
+      changeId: this.sheet.changeId,
+    };
+  }
+}
+
+/**
+ * Track the sheet to render the styles added since a checkpoint.
+ */
+export function track(sheet: Sheet): Tracker {
+  return new Tracker(sheet);
+}
+
+/**
+ * Options for rendering `<style>` tags.
+ */
+export interface StyleTagOptions {
+  /** Content Security Policy nonce for every tag. */
+  nonce?: string;
+  /** Tag `id`, suffixed with the container index when `split` is set. */
+  id?: string;
+  /** Extra attributes, e.g. `data-*` markers for the client. */
+  attributes?: Record<string, string | boolean | undefined>;
+  /** Render a tag per top-level container instead of one tag. */
+  split?: boolean;
+}
+
+/**
+ * Match `</style` (any case) which would end the tag early.
+ */
+const STYLE_END_RE = /<\/(style)/gi;
+
+/**
+ * Match valid HTML attribute names.
+ */
+const ATTRIBUTE_NAME_RE = /^[^\s"'>\/=]+$/;
+
+/**
+ * Escape an attribute value for HTML.
+ */
+function escapeAttribute(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/"/g, "&quot;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+/**
+ * Render a `<style>` tag, escaping `</style` in the CSS (e.g. a `content`
+ * string) as `<\/style`, which is equivalent in CSS.
+ */
+function styleTag(css: string, attributes: Record<string, unknown>) {
+  let attrs = "";
+
+  for (const [name, value] of Object.entries(attributes)) {
+    if (!ATTRIBUTE_NAME_RE.test(name)) {
+      throw new TypeError(`Invalid attribute name "${name}"`);
+    }
+
+    if (value === true) attrs += ` ${name}`;
+    else if (typeof value === "string") {
+      attrs += ` ${name}="${escapeAttribute(value)}"`;
+    }
+  }
+
+  return `<style${attrs}>${css.replace(STYLE_END_RE, "<\\/$1")}</style>`;
+}
+
+/**
+ * Render the styles as `<style>` tag markup for server-side rendering.
+ */
+export function getStyleTags(sheet: Sheet, options: StyleTagOptions = {}) {
+  const { nonce, id, attributes = {}, split } = options;
+
+  for (const name of Object.keys(attributes)) {
+    const key = name.toLowerCase();
+    if (key === "id" || key === "nonce") {
+      throw new TypeError(`Use the "${key}" option instead of attributes`);
+    }
+  }
+
+  if (!split) return styleTag(sheet.getStyles(), { id, nonce, ...attributes });
+
+  return sheet
+    .values()
+    .map((item, index) =>
+      styleTag(item.getStyles(), {
+        id: id === undefined ? undefined : `${id}-${index}`,
+        nonce,
+        ...attributes,
+      }),
+    )
+    .join("");
+}
+
+/**
+ * Serialized `Style` container with the reference count for each selector.
+ */
+export interface SerializedStyle {
+  id: string;
+  style: string;
+  count: number;
+  selectors: Array<[selector: string, count: number]>;
+}
+
+/**
+ * Serialized `Rule` container with nested containers.
+ */
+export interface SerializedRule {
+  id: string;
+  rule: string;
+  style: string;
+  count: number;
+  children: Array<SerializedStyle | SerializedRule>;
+}
+
+/**
+ * Serialize cache containers and reference counts into JSON-safe objects.
+ */
+function serializeCache(
+  cache: Cache<Rule | Style | LayerStatement>,
+): Array<SerializedStyle | SerializedRule> {
+  const items = cache
+    .values()
+    .filter((x): x is Rule | Style => !(x instanceof LayerStatement));
+
+  return items.map((item) => {
+    const count = cache.count(item.cid());
+
+    if (item instanceof Rule) {
+      const { id, rule, style } = item;
+      return { id, rule, style, count, children: serializeCache(item) };
+    }
+
+    return {
+      id: item.id,
+      style: item.style,
+      count,
+      selectors: item
+        .values()
+        .map((x): [string, number] => [x.selector, item.count(x.cid())]),
+    };
+  });
+}
+
+/**
+ * Transform serialized containers back into cache entries, stamped as already
+ * rendered.
+ */
+function deserialize(
+  data: Array<SerializedStyle | SerializedRule>,
+): Array<[Rule | Style, number]> {
+  return data.map((item) => {
+    if ("rule" in item) {
+      const rule = new Rule(item.rule, item.style, item.id);
+      stamps.set(rule, 0);
+      return [rule.restore(deserialize(item.children)), item.count];
+    }
+
+    const style = new Style(item.style, item.id);
+    const selectors = item.selectors.map(
+      ([selector, count]): [Selector, number] => {
+        const item = new Selector(selector);
+        stamps.set(item, 0);
+        return [item, count];
+      },
+    );
+    stamps.set(style, 0);
+    return [style.restore(selectors), item.count];
+  });
+}
+
+/**
+ * Serialize the registered styles, e.g. to `hydrate` the client after SSR.
+ */
+export function serialize(
+  sheet: Sheet,
+): Array<SerializedStyle | SerializedRule> {
+  return serializeCache(sheet);
+}
+
+/**
+ * Restore serialized styles without emitting changes, the CSS is expected to
+ * already exist on the page.
+ */
+export function hydrate<T extends Sheet>(
+  sheet: T,
+  data: Array<SerializedStyle | SerializedRule>,
+): T {
+  return sheet.restore(deserialize(data));
+}
@@ -0,0 +1,80 @@
+import { describe, it, expect } from "vitest";
+import { create } from "./index.js";
+import { rtl } from "./rtl.js";
+import { registerTheme, registerThemeVariant } from "./theme.js";
+
+describe("theme", () => {
+  const tokens = {
+    color: { primary: "blue", textMuted: "#666" },
+    spacing: 4,
+  };
+
+  it("should register tokens as custom properties", () => {
+    const sheet = create();
+    const theme = registerTheme(sheet, tokens);
+
+    expect(theme).toEqual({
+      color: {
+        primary: "var(--color-primary)",
+        textMuted: "var(--color-text-muted)",
+      },
+      spacing: "var(--spacing)",
+    });
+    expect(sheet.getStyles()).toEqual(
+      ":root{--color-primary:blue;--color-text-muted:#666;--spacing:4}",
+    );
+
+    const className = sheet.registerStyle({ color: theme.color.primary });
+
+    expect(sheet.getStyles()).toContain(
+      `.${className}{color:var(--color-primary)}`,
+    );
+  });
+
+  it("should prefix tokens with the sheet prefix", () => {
+    const sheet = create(undefined, "app");
+    const theme = registerTheme(sheet, tokens, ".scope");
+
+    expect(theme.spacing).toEqual("var(--app-spacing)");
+    expect(sheet.getStyles()).toEqual(
+      ".scope{--app-color-primary:blue;--app-color-text-muted:#666;--app-spacing:4}",
+    );
+  });
+
+  it("should keep the case of the sheet prefix", () => {
+    const sheet = create(undefined, "App");
+    const theme = registerTheme(sheet, { primaryColor: "blue" });
+    const dark = registerThemeVariant(
+      sheet,
+      theme,
+      { primaryColor: "black" },
+      "dark",
+    );
+
+    expect(theme.primaryColor).toEqual("var(--App-primary-color)");
+    expect(sheet.getStyles()).toEqual(
+      `:root{--App-primary-color:blue}.${dark}{--App-primary-color:black}`,
+    );
+  });
+
+  it("should register theme variants as class names", () => {
+    const sheet = create();
+    const theme = registerTheme(sheet, tokens);
+    const dark = registerThemeVariant(
+      sheet,
+      theme,
+      { color: { primary: "black" } },
+      "dark",
+    );
+
+    expect(dark.startsWith("dark_")).toBe(true);
+    expect(sheet.getStyles()).toContain(`.${dark}{--color-primary:black}`);
+  });
+
+  it("should not flip custom properties", () => {
+    const sheet = create(undefined, "", { rtl: rtl() });
+    registerTheme(sheet, { margin: { left: 1 } });
+
+    expect(sheet.getStyles()).toEqual(":root{--margin-left:1}");
+  });
+});
@@ -0,0 +1,94 @@
+import type { Sheet, Styles } from "./index.js";
+import { hyphenate } from "./hyphenate.js";
+
+/**
+ * Nested design tokens used to generate a theme.
+ */
+export interface Tokens {
+  [key: string]: string | number | Tokens;
+}
+
+/**
+ * Theme of `var()` references matching the token structure.
+ */
+export type Theme<T extends Tokens> = {
+  [K in keyof T]: T[K] extends Tokens ? Theme<T[K]> : string;
+};
+
+/**
+ * Partial tokens used to override a theme.
+ */
+export type ThemeOverrides<T extends Tokens> = {
+  [K in keyof T]?: T[K] extends Tokens ? ThemeOverrides<T[K]> : string | number;
+};
+
+/**
+ * Add custom property declarations for tokens, returning the `var()` references.
+ */
+function themeStyles(tokens: Tokens, name: string, styles: Styles): Theme<any> {
+  const theme: Record<string, string | Theme<any>> = {};
+
+  for (const [key, value] of Object.entries(tokens)) {
+    const property = `${name}${hyphenate(key)}`;
+
+    if (typeof value === "object") {
+      theme[key] = themeStyles(value, `${property}-`, styles);
+    } else {
+      styles[property] = String(value);
+      theme[key] = `var(${property})`;
+    }
+  }
+
+  return theme;
+}
+
+/**
+ * Add custom property declarations overriding theme references.
+ */
+function themeOverrides(
+  theme: Theme<any>,
+  tokens: ThemeOverrides<any>,
+  styles: Styles,
+): Styles {
+  for (const [key, value] of Object.entries(tokens)) {
+    const ref = theme[key];
+    if (value == null || ref == null) continue;
+
+    if (typeof ref === "object") {
+      themeOverrides(ref, value as ThemeOverrides<any>, styles);
+    } else {
+      styles[ref.slice(4, -1)] = String(value);
+    }
+  }
+
+  return styles;
+}
+
+/**
+ * Register tokens as custom properties on the selector, returning `var()`
+ * references. Property names use the sheet prefix to avoid clashes.
+ */
+export function registerTheme<T extends Tokens>(
+  sheet: Sheet,
+  tokens: T,
+  selector = ":root",
+): Theme<T> {
+  const styles: Styles = {};
+  const name = sheet.prefix ? `--${sheet.prefix}-` : "--";
+  const theme = themeStyles(tokens, name, styles);
+  sheet.registerStyle({ $global: true, [selector]: styles });
+  return theme;
+}
+
+/**
+ * Register a class name overriding theme tokens, e.g. a dark theme.
+ */
+export function registerThemeVariant<T extends Tokens>(
+  sheet: Sheet,
+  theme: Theme<T>,
+  tokens: ThemeOverrides<T>,
+  displayName?: string,
+) {
+  const styles = themeOverrides(theme, tokens, {});
+  return sheet.registerStyle({ ...styles, $displayName: displayName });
+}
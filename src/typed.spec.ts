@@ -0,0 +1,71 @@
+import { describe, it, expect } from "vitest";
+import * as base from "./index.js";
+import { compile, create } from "./typed.js";
+import type { TypedStyles } from "./typed.js";
+
+describe("typed", () => {
+  it("should compile identically to untyped styles", () => {
+    const styles: TypedStyles = {
+      $displayName: "Button",
+      color: "red",
+      width: 10,
+      opacity: 0.5,
+      display: ["-webkit-box", "flex"],
+      position: "sticky",
+      margin: null,
+      "--brand": "blue",
+      WebkitUserSelect: "none",
+      "&:hover": { color: "blue" },
+      "& .icon": { boxSizing: "border-box" },
+      "@media (min-width: 400px)": {
+        width: "50%",
+        "@supports (display: grid)": { display: "grid" },
+      },
+    };
+
+    expect(compile(styles)).toEqual(base.compile(styles));
+  });
+
+  it("should register typed styles", () => {
+    const sheet = create();
+    const className = sheet.registerStyle({ color: "red", zIndex: 1 });
+
+    expect(sheet.getStyles()).toEqual(`.${className}{color:red;z-index:1}`);
+  });
+
+  it("should type every known property", () => {
+    const { styles } = compile({
+      cursor: "pointer",
+      borderCollapse: "collapse",
+      strokeWidth: 2,
+      listStylePosition: "inside",
+      backgroundBlendMode: "multiply",
+    });
+
+    expect(styles[0].style).toEqual(
+      "cursor:pointer;border-collapse:collapse;stroke-width:2;" +
+        "list-style-position:inside;background-blend-mode:multiply",
+    );
+  });
+
+  it("should reject invalid styles", () => {
+    const sheet = create();
+
+    const invalid = () => {
+      // @ts-expect-error Misspelled property.
+      sheet.registerStyle({ backgroudColor: "red" });
+      // @ts-expect-error Numbers are not colors.
+      compile({ color: 1 });
+      // @ts-expect-error Unknown keyword.
+      compile({ position: "center" });
+      // @ts-expect-error Nested selectors must use `&`.
+      compile({ ".child": { color: "red" } });
+      // @ts-expect-error Nested styles must be typed.
+      compile({ "&:hover": { colr: "red" } });
+      // @ts-expect-error Only `@media`, `@supports`, `@container` and `@layer`.
+      compile({ "@font-face": { fontFamily: "x" } });
+    };
+
+    expect(invalid).toBeTypeOf("function");
+  });
+});
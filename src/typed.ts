@@ -0,0 +1,376 @@
+import { compile as compileStyles, create as createSheet } from "./index.js";
+import type { PROPERTIES } from "./properties.js";
+import type {
+  Compiled,
+  CompileOptions,
+  Extend,
+  PropertyValue,
+  Sheet,
+} from "./index.js";
+
+/**
+ * CSS-wide keywords valid for every property.
+ */
+export type GlobalValue =
+  | "inherit"
+  | "initial"
+  | "unset"
+  | "revert"
+  | "revert-layer";
+
+/**
+ * Allow any string while keeping keyword autocompletion.
+ */
+type AnyString = string & {};
+
+/**
+ * Property value, including fallbacks (e.g. `["red", "var(--color)"]`).
+ */
+export type Value<T> =
+  | T
+  | GlobalValue
+  | null
+  | undefined
+  | Array<T | GlobalValue>;
+
+/**
+ * Lengths, numbers are output with the `unit` option (`px` by default).
+ */
+export type Length = number | AnyString;
+
+/**
+ * Properties accepting lengths.
+ */
+type LengthProperty =
+  | "blockSize"
+  | "borderBottomLeftRadius"
+  | "borderBottomRightRadius"
+  | "borderBottomWidth"
+  | "borderLeftWidth"
+  | "borderRadius"
+  | "borderRightWidth"
+  | "borderSpacing"
+  | "borderTopLeftRadius"
+  | "borderTopRightRadius"
+  | "borderTopWidth"
+  | "borderWidth"
+  | "bottom"
+  | "columnGap"
+  | "columnWidth"
+  | "flexBasis"
+  | "fontSize"
+  | "gap"
+  | "height"
+  | "inlineSize"
+  | "inset"
+  | "insetBlock"
+  | "insetInline"
+  | "left"
+  | "letterSpacing"
+  | "margin"
+  | "marginBlock"
+  | "marginBottom"
+  | "marginInline"
+  | "marginLeft"
+  | "marginRight"
+  | "marginTop"
+  | "maxBlockSize"
+  | "maxHeight"
+  | "maxInlineSize"
+  | "maxWidth"
+  | "minBlockSize"
+  | "minHeight"
+  | "minInlineSize"
+  | "minWidth"
+  | "outlineOffset"
+  | "outlineWidth"
+  | "padding"
+  | "paddingBlock"
+  | "paddingBottom"
+  | "paddingInline"
+  | "paddingLeft"
+  | "paddingRight"
+  | "paddingTop"
+  | "perspective"
+  | "right"
+  | "rowGap"
+  | "scrollMargin"
+  | "scrollPadding"
+  | "textIndent"
+  | "top"
+  | "width"
+  | "wordSpacing";
+
+/**
+ * Properties accepting unit-less numbers.
+ */
+type NumberProperty =
+  | "animationIterationCount"
+  | "columnCount"
+  | "flex"
+  | "flexGrow"
+  | "flexShrink"
+  | "fontWeight"
+  | "gridColumn"
+  | "gridColumnEnd"
+  | "gridColumnStart"
+  | "gridRow"
+  | "gridRowEnd"
+  | "gridRowStart"
+  | "lineClamp"
+  | "lineHeight"
+  | "opacity"
+  | "order"
+  | "orphans"
+  | "scale"
+  | "tabSize"
+  | "widows"
+  | "zIndex"
+  | "zoom";
+
+/**
+ * Properties accepting strings only, e.g. colors and functions.
+ */
+type StringProperty =
+  | "accentColor"
+  | "alignContent"
+  | "alignItems"
+  | "alignSelf"
+  | "animation"
+  | "animationDelay"
+  | "animationDirection"
+  | "animationDuration"
+  | "animationFillMode"
+  | "animationName"
+  | "animationPlayState"
+  | "animationTimingFunction"
+  | "appearance"
+  | "aspectRatio"
+  | "backdropFilter"
+  | "background"
+  | "backgroundAttachment"
+  | "backgroundClip"
+  | "backgroundColor"
+  | "backgroundImage"
+  | "backgroundOrigin"
+  | "backgroundPosition"
+  | "backgroundRepeat"
+  | "backgroundSize"
+  | "border"
+  | "borderBottom"
+  | "borderBottomColor"
+  | "borderBottomStyle"
+  | "borderColor"
+  | "borderLeft"
+  | "borderLeftColor"
+  | "borderLeftStyle"
+  | "borderRight"
+  | "borderRightColor"
+  | "borderRightStyle"
+  | "borderStyle"
+  | "borderTop"
+  | "borderTopColor"
+  | "borderTopStyle"
+  | "boxShadow"
+  | "caretColor"
+  | "clipPath"
+  | "color"
+  | "columnRule"
+  | "contain"
+  | "container"
+  | "containerName"
+  | "containerType"
+  | "content"
+  | "counterIncrement"
+  | "counterReset"
+  | "direction"
+  | "fill"
+  | "filter"
+  | "flexDirection"
+  | "flexFlow"
+  | "flexWrap"
+  | "font"
+  | "fontFamily"
+  | "fontFeatureSettings"
+  | "fontStyle"
+  | "fontVariant"
+  | "grid"
+  | "gridArea"
+  | "gridAutoColumns"
+  | "gridAutoFlow"
+  | "gridAutoRows"
+  | "gridTemplate"
+  | "gridTemplateAreas"
+  | "gridTemplateColumns"
+  | "gridTemplateRows"
+  | "hyphens"
+  | "isolation"
+  | "justifyContent"
+  | "justifyItems"
+  | "justifySelf"
+  | "listStyle"
+  | "listStyleType"
+  | "mask"
+  | "mixBlendMode"
+  | "objectFit"
+  | "objectPosition"
+  | "outline"
+  | "outlineColor"
+  | "outlineStyle"
+  | "overflowWrap"
+  | "placeContent"
+  | "placeItems"
+  | "placeSelf"
+  | "pointerEvents"
+  | "resize"
+  | "rotate"
+  | "scrollBehavior"
+  | "scrollSnapAlign"
+  | "scrollSnapType"
+  | "stroke"
+  | "tableLayout"
+  | "textDecoration"
+  | "textOverflow"
+  | "textShadow"
+  | "textTransform"
+  | "touchAction"
+  | "transform"
+  | "transformOrigin"
+  | "transition"
+  | "transitionDelay"
+  | "transitionDuration"
+  | "transitionProperty"
+  | "transitionTimingFunction"
+  | "translate"
+  | "userSelect"
+  | "verticalAlign"
+  | "willChange"
+  | "wordBreak"
+  | "writingMode";
+
+/**
+ * Properties with a fixed set of keywords.
+ */
+interface KeywordProperties {
+  boxSizing: "border-box" | "content-box";
+  clear: "none" | "left" | "right" | "both" | "inline-start" | "inline-end";
+  display:
+    | "block"
+    | "contents"
+    | "flex"
+    | "flow-root"
+    | "grid"
+    | "inline"
+    | "inline-block"
+    | "inline-flex"
+    | "inline-grid"
+    | "list-item"
+    | "none"
+    | "table"
+    | "table-cell"
+    | "table-row"
+    | AnyString;
+  float: "none" | "left" | "right" | "inline-start" | "inline-end";
+  overflow: "visible" | "hidden" | "clip" | "scroll" | "auto" | AnyString;
+  overflowX: "visible" | "hidden" | "clip" | "scroll" | "auto";
+  overflowY: "visible" | "hidden" | "clip" | "scroll" | "auto";
+  position:
+    | "static"
+    | "relative"
+    | "absolute"
+    | "fixed"
+    | "sticky"
+    | "-webkit-sticky";
+  textAlign: "start" | "end" | "left" | "right" | "center" | "justify";
+  visibility: "visible" | "hidden" | "collapse";
+  whiteSpace:
+    | "normal"
+    | "nowrap"
+    | "pre"
+    | "pre-wrap"
+    | "pre-line"
+    | "break-spaces";
+}
+
+/**
+ * Transform a CSS property into a JavaScript property, e.g. `z-index` to
+ * `zIndex`.
+ */
+type CamelCase<T extends string> = T extends `${infer H}-${infer R}`
+  ? `${H}${Capitalize<CamelCase<R>>}`
+  : T;
+
+/**
+ * Known properties without a more specific type, from the shared list used
+ * for validation.
+ */
+type OtherProperty = Exclude<
+  CamelCase<(typeof PROPERTIES)[number]>,
+  LengthProperty | NumberProperty | StringProperty | keyof KeywordProperties
+>;
+
+/**
+ * Known CSS properties using camelCase names.
+ */
+export type CSSProperties = {
+  [K in OtherProperty]?: Value<number | AnyString>;
+} & {
+  [K in LengthProperty]?: Value<Length>;
+} & {
+  [K in NumberProperty]?: Value<number | AnyString>;
+} & {
+  [K in StringProperty]?: Value<AnyString>;
+} & {
+  [K in keyof KeywordProperties]?: Value<KeywordProperties[K]>;
+};
+
+/**
+ * Nested selector and `@`-rule keys.
+ */
+export type NestedKey =
+  | `&${string}`
+  | `@media ${string}`
+  | `@supports ${string}`
+  | `@container ${string}`
+  | `@layer ${string}`;
+
+/**
+ * Strongly typed nested styles, unknown keys must be nested selectors (`&...`),
+ * `@`-rules, custom properties (`--*`) or vendor prefixed properties.
+ */
+export type TypedNestedStyles = CSSProperties & {
+  $unique?: boolean;
+  $global?: boolean;
+  $displayName?: string;
+  $noflip?: boolean;
+  $layer?: string;
+  [key: NestedKey]: TypedNestedStyles;
+  [key: `--${string}`]: Value<PropertyValue>;
+  [key: `${"Webkit" | "Moz" | "ms"}${string}`]: Value<PropertyValue>;
+};
+
+/**
+ * Strongly typed styles, with `$extend` at the top level.
+ */
+export type TypedStyles = TypedNestedStyles & { $extend?: Extend };
+
+/**
+ * Sheet with typed `registerStyle`.
+ */
+export interface TypedSheet extends Sheet {
+  registerStyle(styles: TypedStyles): string;
+}
+
+/**
+ * Compile typed styles, identical to `compile` at runtime.
+ */
+export const compile: (
+  styles: TypedStyles,
+  options?: CompileOptions,
+) => Compiled = compileStyles;
+
+/**
+ * Create a sheet with typed `registerStyle`, identical to `create` at runtime.
+ */
+export const create: (...args: Parameters<typeof createSheet>) => TypedSheet =
+  createSheet;
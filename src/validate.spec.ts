@@ -0,0 +1,149 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { createRequire } from "node:module";
+import { compile, create } from "./index.js";
+import { atomizer } from "./atomic.js";
+import { PROPERTIES } from "./properties.js";
+import { validator } from "./validate.js";
+import type { Issue } from "./validate.js";
+
+const cssProperties: string[] = createRequire(import.meta.url)(
+  "just-css-properties",
+);
+
+describe("validate", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it("should report unknown properties with the path", () => {
+    const issues: Issue[] = [];
+    const validate = validator((issue) => issues.push(issue));
+
+    compile(
+      {
+        $displayName: "Button",
+        color: "red",
+        "&:hover": {
+          "@media print": { backgroudColor: "blue" },
+        },
+      },
+      { validate },
+    );
+
+    expect(issues).toEqual([
+      {
+        property: "backgroud-color",
+        value: "blue",
+        displayName: "Button",
+        path: ["&:hover", "@media print"],
+        message: 'Unknown property "backgroud-color"',
+      },
+    ]);
+  });
+
+  it("should allow custom and vendor prefixed properties", () => {
+    const issues: Issue[] = [];
+    const validate = validator((issue) => issues.push(issue));
+
+    compile(
+      {
+        "--brand-color": "red",
+        WebkitUserSelect: "none",
+        msFlex: 1,
+      },
+      { validate },
+    );
+
+    expect(issues).toEqual([]);
+  });
+
+  it("should report suspicious values", () => {
+    const issues: Issue[] = [];
+    const validate = validator((issue) => issues.push(issue));
+
+    compile(
+      {
+        width: NaN,
+        height: "undefinedpx",
+        background: ["red", String({})],
+        margin: null,
+      },
+      { validate },
+    );
+
+    expect(issues.map((x) => x.message)).toEqual([
+      'Invalid value "NaN" for "width"',
+      'Invalid value "undefinedpx" for "height"',
+      'Invalid value "[object Object]" for "background"',
+    ]);
+  });
+
+  it("should not report words containing invalid values", () => {
+    const issues: Issue[] = [];
+    const validate = validator((issue) => issues.push(issue));
+
+    compile(
+      {
+        animationName: "nullify",
+        fontFamily: "Infinity Sans",
+        transform: "translate(NaNpx, 0)",
+        "@font-face": { src: "url(a.woff2)", unicodeRange: "U+0000-00FF" },
+      },
+      { validate },
+    );
+
+    expect(issues.map((x) => x.message)).toEqual([
+      'Invalid value "translate(NaNpx, 0)" for "transform"',
+    ]);
+  });
+
+  it("should include every standard property", () => {
+    for (const property of cssProperties) {
+      if (property.startsWith("-")) continue;
+      expect(PROPERTIES).toContain(property);
+    }
+  });
+
+  it("should throw with the display name and path", () => {
+    const sheet = create(undefined, "", { validate: validator("throw") });
+
+    expect(() =>
+      sheet.registerStyle({
+        $displayName: "Card",
+        "& .title": { colr: "red" },
+      }),
+    ).toThrow(new TypeError('Unknown property "colr" in Card > & .title'));
+  });
+
+  it("should warn by default", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    compile({ colr: "red" }, { validate: validator() });
+
+    expect(warn).toHaveBeenCalledWith('Unknown property "colr" in <anonymous>');
+  });
+
+  it("should validate atomic styles", () => {
+    const issues: Issue[] = [];
+    const validate = validator((issue) => issues.push(issue));
+
+    compile(
+      { $displayName: "Box", "&:hover": { colr: "red" } },
+      { validate, atomic: atomizer() },
+    );
+
+    expect(issues.map((x) => [x.displayName, x.path])).toEqual([
+      ["Box", ["&:hover"]],
+    ]);
+  });
+
+  it("should not validate in production", () => {
+    vi.stubEnv("NODE_ENV", "production");
+
+    const validate = vi.fn();
+    compile({ colr: "red" }, { validate });
+
+    expect(validate).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,81 @@
+import type { Declaration, PropertyValue } from "./index.js";
+import { PROPERTIES } from "./properties.js";
+
+/**
+ * Known standard CSS properties, vendor prefixes are removed before checking.
+ */
+const KNOWN_PROPERTIES = new Set<string>(PROPERTIES);
+
+/**
+ * Values created by stringifying missing or invalid JavaScript values, the
+ * whole value (e.g. `undefined`), with a unit (e.g. `NaNpx`) or an object.
+ */
+const INVALID_VALUE_RE =
+  /^(?:undefined|null|NaN|-?Infinity)$|(?<![\w-])(?:undefined|null|NaN|-?Infinity)(?:%|px|r?em|ch|ex|v(?:w|h|min|max)|fr|deg|m?s)(?![\w-])|\[object \w+\]/;
+
+/**
+ * Issue found in a declaration, passed to a custom reporter.
+ */
+export interface Issue extends Declaration {
+  message: string;
+}
+
+/**
+ * Report validation issues: `"warn"` logs to the console, `"throw"` throws a
+ * `TypeError` and a function receives every issue.
+ */
+export type Reporter = "warn" | "throw" | ((issue: Issue) => void);
+
+/**
+ * Check the property name is a custom or known property.
+ */
+function isKnownProperty(property: string) {
+  if (property.startsWith("--")) return true;
+  return KNOWN_PROPERTIES.has(property.replace(/^-(?:webkit|moz|ms|o)-/, ""));
+}
+
+/**
+ * Check the value is not created from a missing or invalid JavaScript value.
+ */
+function isValidValue(value: NonNullable<PropertyValue>) {
+  if (typeof value === "number") return Number.isFinite(value);
+  if (typeof value === "string") return !INVALID_VALUE_RE.test(value);
+  return true;
+}
+
+/**
+ * Format the issue location for messages, e.g. `Button > &:hover`.
+ */
+function location({ displayName, path }: Declaration) {
+  return [displayName ?? "<anonymous>", ...path].join(" > ");
+}
+
+/**
+ * Create a `validate` compile option that reports unknown properties and
+ * suspicious values (e.g. `NaN` or `[object Object]`) in development.
+ */
+export function validator(reporter: Reporter = "warn") {
+  const report = (declaration: Declaration, message: string) => {
+    const issue = { ...declaration, message };
+
+    if (reporter === "warn") {
+      console.warn(`${message} in ${location(issue)}`);
+    } else if (reporter === "throw") {
+      throw new TypeError(`${message} in ${location(issue)}`);
+    } else {
+      reporter(issue);
+    }
+  };
+
+  return (declaration: Declaration) => {
+    const { property, value } = declaration;
+
+    if (!isKnownProperty(property)) {
+      report(declaration, `Unknown property "${property}"`);
+    }
+
+    if (!isValidValue(value)) {
+      report(declaration, `Invalid value "${value}" for "${property}"`);
+    }
+  };
+}